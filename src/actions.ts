@@ -0,0 +1,247 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { Page, KeyInput, PuppeteerLifeCycleEvent } from 'puppeteer';
+import { Logger, createLogger } from './logger';
+
+const log = createLogger('browser');
+
+interface StepOptions {
+  // Per-step timeout in ms (default: the script's defaultTimeout)
+  timeout?: number;
+  // An optional step that fails only logs a warning; a required one aborts the script
+  optional?: boolean;
+}
+
+type ActionStep = StepOptions & (
+  | { action: 'waitForSelector'; selector: string; visible?: boolean }
+  | { action: 'click'; selector?: string; x?: number; y?: number }
+  | { action: 'type'; selector: string; text: string; delay?: number }
+  | { action: 'press'; key: string; selector?: string }
+  | { action: 'scroll'; selector?: string; x?: number; y?: number }
+  | { action: 'hover'; selector: string }
+  | { action: 'wait'; ms: number }
+  | { action: 'evaluate'; script: string }
+  | { action: 'goto'; url: string; waitUntil?: PuppeteerLifeCycleEvent }
+);
+
+type ActionName = ActionStep['action'];
+
+// Required fields per action (besides `action` itself)
+const ACTION_FIELDS: Record<ActionName, string[]> = {
+  waitForSelector: ['selector'],
+  click: [],
+  type: ['selector', 'text'],
+  press: ['key'],
+  scroll: [],
+  hover: ['selector'],
+  wait: ['ms'],
+  evaluate: ['script'],
+  goto: ['url'],
+};
+
+// Type of every step field, checked wherever the field is given
+const FIELD_TYPES: Record<string, 'string' | 'number' | 'boolean'> = {
+  selector: 'string',
+  text: 'string',
+  key: 'string',
+  script: 'string',
+  url: 'string',
+  waitUntil: 'string',
+  ms: 'number',
+  x: 'number',
+  y: 'number',
+  delay: 'number',
+  timeout: 'number',
+  visible: 'boolean',
+  optional: 'boolean',
+};
+
+const DEFAULT_STEP_TIMEOUT = 10000;
+
+class ActionScriptError extends Error {}
+
+/**
+ * Check an action script's shape and return it typed
+ * Accepts a bare list of steps or an object with a `steps` list.
+ */
+function validateActions(input: unknown): ActionStep[] {
+  const steps = Array.isArray(input) ? input : (input as any)?.steps;
+  if (!Array.isArray(steps)) {
+    throw new ActionScriptError('Action script must be a list of steps (or an object with a "steps" list)');
+  }
+
+  steps.forEach((step: any, index: number) => {
+    const where = `Step ${index + 1}`;
+    if (!step || typeof step !== 'object' || typeof step.action !== 'string') {
+      throw new ActionScriptError(`${where}: "action" is required`);
+    }
+    const required = ACTION_FIELDS[step.action as ActionName];
+    if (!required) {
+      throw new ActionScriptError(
+        `${where}: unknown action "${step.action}". Available: ${Object.keys(ACTION_FIELDS).join(', ')}`
+      );
+    }
+    for (const field of required) {
+      if (step[field] === undefined) {
+        throw new ActionScriptError(`${where} (${step.action}): "${field}" is required`);
+      }
+    }
+    for (const [field, type] of Object.entries(FIELD_TYPES)) {
+      const value = step[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+        throw new ActionScriptError(`${where} (${step.action}): "${field}" must be a ${type}, got ${JSON.stringify(value)}`);
+      }
+      if (type === 'number' && field !== 'x' && field !== 'y' && value < 0) {
+        throw new ActionScriptError(`${where} (${step.action}): "${field}" must not be negative, got ${value}`);
+      }
+    }
+    if (step.action === 'click' && !step.selector && (typeof step.x !== 'number' || typeof step.y !== 'number')) {
+      throw new ActionScriptError(`${where} (click): needs a "selector" or both "x" and "y"`);
+    }
+  });
+
+  return steps as ActionStep[];
+}
+
+/**
+ * Load an action script from a .json, .yaml or .yml file
+ */
+function loadActionScript(file: string): ActionStep[] {
+  const content = readFileSync(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (e) {
+    throw new ActionScriptError(`Could not parse action script ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  return validateActions(parsed);
+}
+
+/**
+ * Build the equivalent script for the old --click-selector / --click-x/--click-y / --click-delay options
+ * The click is optional, as a failed click never stopped a stream before.
+ */
+function legacyClickActions(selector?: string, x?: number, y?: number, delay: number = 1000): ActionStep[] {
+  let click: ActionStep;
+  if (selector) {
+    click = { action: 'click', selector, optional: true };
+  } else if (x !== undefined && y !== undefined) {
+    click = { action: 'click', x, y, optional: true };
+  } else {
+    return [];
+  }
+  return delay > 0 ? [click, { action: 'wait', ms: delay }] : [click];
+}
+
+function describeStep(step: ActionStep): string {
+  switch (step.action) {
+    case 'click':
+      return step.selector ? `click ${step.selector}` : `click (${step.x}, ${step.y})`;
+    case 'wait':
+      return `wait ${step.ms}ms`;
+    case 'goto':
+      return `goto ${step.url}`;
+    case 'press':
+      return `press ${step.key}`;
+    case 'evaluate':
+      return 'evaluate script';
+    default:
+      return 'selector' in step && step.selector ? `${step.action} ${step.selector}` : step.action;
+  }
+}
+
+async function runStep(page: Page, step: ActionStep, timeout: number): Promise<void> {
+  switch (step.action) {
+    case 'waitForSelector':
+      await page.waitForSelector(step.selector, { timeout, visible: step.visible ?? true });
+      break;
+
+    case 'click':
+      if (step.selector) {
+        await page.waitForSelector(step.selector, { timeout, visible: true });
+        await page.click(step.selector);
+      } else {
+        await page.mouse.click(step.x!, step.y!);
+      }
+      break;
+
+    case 'type':
+      await page.waitForSelector(step.selector, { timeout, visible: true });
+      await page.type(step.selector, step.text, { delay: step.delay ?? 0 });
+      break;
+
+    case 'press':
+      if (step.selector) {
+        await page.waitForSelector(step.selector, { timeout });
+        await page.focus(step.selector);
+      }
+      await page.keyboard.press(step.key as KeyInput);
+      break;
+
+    case 'scroll':
+      if (step.selector) {
+        const element = await page.waitForSelector(step.selector, { timeout });
+        await element?.evaluate((el) => (el as any).scrollIntoView({ block: 'center' }));
+        await element?.dispose();
+      } else {
+        await page.evaluate(`window.scrollBy(${step.x ?? 0}, ${step.y ?? 0})`);
+      }
+      break;
+
+    case 'hover':
+      await page.waitForSelector(step.selector, { timeout, visible: true });
+      await page.hover(step.selector);
+      break;
+
+    case 'wait':
+      await new Promise((resolve) => setTimeout(resolve, step.ms));
+      break;
+
+    case 'evaluate':
+      await page.evaluate(step.script);
+      break;
+
+    case 'goto':
+      await page.goto(step.url, { timeout, waitUntil: step.waitUntil ?? 'networkidle2' });
+      break;
+  }
+}
+
+/**
+ * Run an action script against the page, step by step
+ * Every step is bounded by its timeout; a failing required step throws, an optional one is skipped.
+ */
+async function runActions(page: Page, steps: ActionStep[], defaultTimeout: number = DEFAULT_STEP_TIMEOUT, logger: Logger = log): Promise<void> {
+  for (const [index, step] of steps.entries()) {
+    const label = `[${index + 1}/${steps.length}] ${describeStep(step)}`;
+    // `wait` steps take exactly as long as they say
+    const timeout = step.action === 'wait' ? step.ms + defaultTimeout : step.timeout ?? defaultTimeout;
+    logger.info(`Action ${label}`);
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        runStep(page, step, timeout),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`timed out after ${timeout}ms`)), timeout);
+        }),
+      ]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (step.optional) {
+        logger.warn(`Optional action ${label} failed, continuing: ${message}`);
+        continue;
+      }
+      throw new ActionScriptError(`Action ${label} failed: ${message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export { ActionStep, ActionScriptError, validateActions, loadActionScript, legacyClickActions, runActions };
@@ -0,0 +1,219 @@
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import { Logger, createLogger } from './logger';
+
+interface AudioMeterOptions {
+  // PulseAudio source to meter, e.g. "stream_sink.monitor"; without one, samples come through feed()
+  source?: string;
+  env?: NodeJS.ProcessEnv;
+  // Windows quieter than this (dBFS) count as silence
+  silenceThreshold?: number;
+  // Emit `silence` once audio has been silent this many seconds (0 = never)
+  silenceAlertAfter?: number;
+  // Where the meter logs (default: a plain `audio` logger)
+  logger?: Logger;
+}
+
+interface AudioLevels {
+  // Over the last metering window, in dBFS (FLOOR_DB for digital silence)
+  rms: number;
+  peak: number;
+  silent: boolean;
+  // Seconds of continuous silence so far (0 while there is sound)
+  silentFor: number;
+  lastSoundAt: string | null;
+}
+
+// Mono 16-bit at 8 kHz is plenty for level metering
+const SAMPLE_RATE = 8000;
+const WINDOW_SAMPLES = SAMPLE_RATE / 10;
+const FLOOR_DB = -96;
+const RESTART_DELAY = 2000;
+
+function toDb(value: number): number {
+  return value > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(value / 32768)) : FLOOR_DB;
+}
+
+/**
+ * Continuously meters a PulseAudio source with parec (or samples handed to feed())
+ * Tracks RMS/peak per 100ms window and how long the signal has been silent.
+ *
+ * Events: silence (silent for silenceAlertAfter seconds), sound (audio back after a silence alert)
+ */
+class AudioMeter extends EventEmitter {
+  private process: ChildProcess | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private pending: Buffer = Buffer.alloc(0);
+  private rms = FLOOR_DB;
+  private peak = FLOOR_DB;
+  private silentSince: number | null = null;
+  private lastSoundAt: number | null = null;
+  private alerted = false;
+  private silenceExpected = false;
+
+  private silenceThreshold: number;
+  private silenceAlertAfter: number;
+  private log: Logger;
+
+  constructor(private options: AudioMeterOptions) {
+    super();
+    this.silenceThreshold = options.silenceThreshold ?? -50;
+    this.silenceAlertAfter = options.silenceAlertAfter ?? 30;
+    this.log = options.logger ?? createLogger('audio');
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.silentSince = Date.now();
+    if (this.options.source) {
+      this.spawnProcess();
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    if (this.process) {
+      this.process.kill('SIGTERM');
+      this.process = null;
+    }
+  }
+
+  get levels(): AudioLevels {
+    return {
+      rms: Math.round(this.rms * 10) / 10,
+      peak: Math.round(this.peak * 10) / 10,
+      silent: this.silentSince !== null,
+      silentFor: this.silentSince !== null ? Math.round((Date.now() - this.silentSince) / 1000) : 0,
+      lastSoundAt: this.lastSoundAt ? new Date(this.lastSoundAt).toISOString() : null,
+    };
+  }
+
+  /**
+   * Suppress silence alerts while the source is silent on purpose (e.g. a muted playlist page)
+   * The silence clock starts over when alerts are turned back on.
+   */
+  expectSilence(expected: boolean): void {
+    if (this.silenceExpected && !expected && this.silentSince !== null) {
+      this.silentSince = Date.now();
+    }
+    this.silenceExpected = expected;
+  }
+
+  /**
+   * Resolve true as soon as a window is louder than the silence threshold, false on timeout
+   */
+  waitForSound(timeout: number): Promise<boolean> {
+    if (this.silentSince === null) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const onSound = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.off('window-sound', onSound);
+        resolve(false);
+      }, timeout);
+      this.once('window-sound', onSound);
+    });
+  }
+
+  /**
+   * Meter samples from somewhere other than PulseAudio (8 kHz mono s16le)
+   */
+  feed(samples: Buffer): void {
+    if (!this.stopped) {
+      this.consume(samples);
+    }
+  }
+
+  private spawnProcess(): void {
+    const parec = spawn('parec', [
+      '-d', this.options.source!,
+      '--format=s16le',
+      `--rate=${SAMPLE_RATE}`,
+      '--channels=1',
+      '--latency-msec=100',
+    ], { env: this.options.env });
+    this.process = parec;
+
+    parec.stdout?.on('data', (data: Buffer) => this.consume(data));
+
+    parec.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        this.log.warn('parec not found, audio level metering disabled');
+        this.stopped = true;
+      } else {
+        this.log.warn('Audio meter error', { error });
+      }
+    });
+
+    parec.on('close', (code) => {
+      if (this.process === parec) {
+        this.process = null;
+      }
+      if (!this.stopped) {
+        this.log.warn(`Audio meter exited with code ${code}, restarting in ${RESTART_DELAY}ms`);
+        this.restartTimer = setTimeout(() => {
+          this.restartTimer = null;
+          if (!this.stopped) {
+            this.spawnProcess();
+          }
+        }, RESTART_DELAY);
+      }
+    });
+  }
+
+  private consume(data: Buffer): void {
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, data]) : data;
+    const windowBytes = WINDOW_SAMPLES * 2;
+    while (this.pending.length >= windowBytes) {
+      this.measure(this.pending.subarray(0, windowBytes));
+      this.pending = this.pending.subarray(windowBytes);
+    }
+  }
+
+  private measure(window: Buffer): void {
+    let sumSquares = 0;
+    let peak = 0;
+    for (let offset = 0; offset < window.length; offset += 2) {
+      const sample = window.readInt16LE(offset);
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    this.rms = toDb(Math.sqrt(sumSquares / WINDOW_SAMPLES));
+    this.peak = toDb(peak);
+
+    const now = Date.now();
+    if (this.rms >= this.silenceThreshold) {
+      if (this.alerted) {
+        const silentFor = Math.round((now - (this.silentSince ?? now)) / 1000);
+        this.log.info(`Audio is back after ${silentFor}s of silence`);
+        this.emit('sound', { silentFor });
+        this.alerted = false;
+      }
+      this.silentSince = null;
+      this.lastSoundAt = now;
+      this.emit('window-sound');
+      return;
+    }
+
+    if (this.silentSince === null) {
+      this.silentSince = now;
+    }
+    const silentFor = (now - this.silentSince) / 1000;
+    if (this.silenceAlertAfter > 0 && !this.silenceExpected && !this.alerted && silentFor >= this.silenceAlertAfter) {
+      this.log.warn(`Audio has been silent for ${Math.round(silentFor)}s (below ${this.silenceThreshold} dBFS)`);
+      this.emit('silence', { silentFor: Math.round(silentFor), threshold: this.silenceThreshold });
+      this.alerted = true;
+    }
+  }
+}
+
+export { AudioMeter, AudioMeterOptions, AudioLevels };
@@ -0,0 +1,196 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+interface AudioSource {
+  // Local file, http(s) URL, local .m3u/.txt playlist, or a list of files/URLs played in order
+  input: string | string[];
+  // Linear gain: 1 = unchanged, 0.3 = a quiet bed (default: 1)
+  volume?: number;
+  // Start over when the input ends (default: true); a non-looping source drops out of the mix
+  loop?: boolean;
+  // Turn this source down while the page itself is making sound
+  duck?: boolean;
+}
+
+interface AudioMix {
+  // Extra inputs plus the -filter_complex graph; goes after the capture inputs
+  inputArgs: string[];
+  // One `-map` set per FFmpeg output (main output first, then e.g. the preview)
+  outputMaps: string[][];
+}
+
+interface AudioMixOptions {
+  sources: AudioSource[];
+  // Per-source input args from prepareAudioSources
+  sourceInputs: string[][];
+  // Stream specifier of the page audio, e.g. "1:a"
+  pageAudio: string;
+  // Index the first extra input will get (= number of capture inputs)
+  firstInput: number;
+  pageVolume?: number;
+  // Number of outputs that need the mixed audio
+  outputs?: number;
+}
+
+class AudioSourceError extends Error {}
+
+const PLAYLIST_EXTENSIONS = ['.m3u', '.m3u8', '.txt'];
+
+// Everything is mixed as 44.1 kHz stereo, like the capture; the encoder resamples from there
+const MIX_FORMAT = 'aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo';
+
+// Ducks by roughly 20 dB within 50ms of page sound, recovering over a second
+const DUCK_FILTER = 'sidechaincompress=threshold=0.02:ratio=10:attack=50:release=1000';
+
+function isUrl(input: string): boolean {
+  return /^https?:\/\//i.test(input);
+}
+
+/**
+ * Check an audio source list's shape and return it typed
+ * Accepts a bare list or an object with a `sources` list.
+ */
+function validateAudioSources(input: unknown): AudioSource[] {
+  const sources = Array.isArray(input) ? input : (input as any)?.sources;
+  if (!Array.isArray(sources)) {
+    throw new AudioSourceError('Audio sources must be a list (or an object with a "sources" list)');
+  }
+
+  sources.forEach((source: any, index: number) => {
+    const where = `Audio source ${index + 1}`;
+    const inputs = Array.isArray(source?.input) ? source.input : [source?.input];
+    if (inputs.length === 0 || inputs.some((entry: unknown) => typeof entry !== 'string' || !entry)) {
+      throw new AudioSourceError(`${where}: "input" must be a path or URL, or a list of them`);
+    }
+    if (source.volume !== undefined && (typeof source.volume !== 'number' || source.volume < 0)) {
+      throw new AudioSourceError(`${where}: "volume" must be a number >= 0`);
+    }
+    for (const flag of ['loop', 'duck']) {
+      if (source[flag] !== undefined && typeof source[flag] !== 'boolean') {
+        throw new AudioSourceError(`${where}: "${flag}" must be true or false`);
+      }
+    }
+  });
+
+  return sources as AudioSource[];
+}
+
+/**
+ * Load audio sources from a .json, .yaml or .yml file
+ */
+function loadAudioSources(file: string): AudioSource[] {
+  const content = readFileSync(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (e) {
+    throw new AudioSourceError(`Could not parse audio sources ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  return validateAudioSources(parsed);
+}
+
+// Entries of a local .m3u/.txt playlist, resolved against the playlist's directory
+function readPlaylist(file: string): string[] {
+  const entries = readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((entry) => (isUrl(entry) || path.isAbsolute(entry) ? entry : path.resolve(path.dirname(file), entry)));
+  if (entries.length === 0) {
+    throw new AudioSourceError(`Playlist ${file} has no entries`);
+  }
+  return entries;
+}
+
+/**
+ * Turn each source into FFmpeg input args
+ * Playlists (local .m3u/.txt files or `input` lists) are written as ffconcat files into `workDir`.
+ * Every input is read at its native rate (-re) so it stays in step with the live capture.
+ */
+function prepareAudioSources(sources: AudioSource[], workDir: string): string[][] {
+  return sources.map((source, index) => {
+    const loopArgs = source.loop === false ? [] : ['-stream_loop', '-1'];
+    const single = Array.isArray(source.input) ? (source.input.length === 1 ? source.input[0] : null) : source.input;
+
+    let entries: string[] | null = null;
+    if (single === null) {
+      entries = (source.input as string[]).map((entry) => (isUrl(entry) ? entry : path.resolve(entry)));
+    } else if (!isUrl(single) && PLAYLIST_EXTENSIONS.includes(path.extname(single).toLowerCase())) {
+      entries = readPlaylist(single);
+    }
+
+    if (!entries) {
+      if (!isUrl(single!) && !existsSync(single!)) {
+        throw new AudioSourceError(`Audio source ${index + 1}: ${single} not found`);
+      }
+      const reconnect = isUrl(single!) ? ['-reconnect', '1', '-reconnect_streamed', '1', '-reconnect_delay_max', '5'] : [];
+      return [...loopArgs, ...reconnect, '-re', '-i', single!];
+    }
+
+    mkdirSync(workDir, { recursive: true });
+    const listFile = path.join(workDir, `audio-source-${index + 1}.ffconcat`);
+    const lines = entries.map((entry) => `file '${entry.replace(/'/g, "'\\''")}'`);
+    writeFileSync(listFile, ['ffconcat version 1.0', ...lines, ''].join('\n'));
+    return [
+      ...loopArgs,
+      '-re',
+      '-f', 'concat',
+      '-safe', '0',
+      '-protocol_whitelist', 'file,http,https,tcp,tls,crypto',
+      '-i', listFile,
+    ];
+  });
+}
+
+/**
+ * Mix the page audio with the extra sources through an amix filter graph
+ * Each source gets its own volume; ducked sources go through a sidechain compressor keyed
+ * on the page audio. The mix lasts as long as the page audio, which never ends.
+ */
+function buildAudioMix(options: AudioMixOptions): AudioMix {
+  const { sources, sourceInputs, pageAudio, firstInput, pageVolume = 1, outputs = 1 } = options;
+  const ducked = sources.filter((source) => source.duck).length;
+  const filters: string[] = [];
+
+  // Page audio, split into one copy for the mix plus one sidechain key per ducked source
+  const keys = Array.from({ length: ducked }, (_, index) => `[key${index}]`);
+  const pageChain = `[${pageAudio}]${MIX_FORMAT},volume=${pageVolume}`;
+  filters.push(ducked > 0 ? `${pageChain},asplit=${ducked + 1}[page]${keys.join('')}` : `${pageChain}[page]`);
+
+  const mixInputs = ['[page]'];
+  let key = 0;
+  sources.forEach((source, index) => {
+    const label = `src${index}`;
+    filters.push(`[${firstInput + index}:a]${MIX_FORMAT},volume=${source.volume ?? 1}[${label}]`);
+    if (source.duck) {
+      filters.push(`[${label}]${keys[key++]}${DUCK_FILTER}[${label}d]`);
+      mixInputs.push(`[${label}d]`);
+    } else {
+      mixInputs.push(`[${label}]`);
+    }
+  });
+
+  // normalize=0 keeps every input at its own volume instead of dividing by the input count
+  const outLabels = Array.from({ length: outputs }, (_, index) => `[aout${index}]`);
+  const mix = mixInputs.length > 1
+    ? `${mixInputs.join('')}amix=inputs=${mixInputs.length}:duration=first:dropout_transition=0:normalize=0`
+    : `${mixInputs[0]}anull`;
+  filters.push(outputs > 1 ? `${mix},asplit=${outputs}${outLabels.join('')}` : `${mix}${outLabels[0]}`);
+
+  return {
+    inputArgs: [...sourceInputs.flat(), '-filter_complex', filters.join(';')],
+    outputMaps: outLabels.map((label) => ['-map', '0:v', '-map', label]),
+  };
+}
+
+export {
+  AudioSource,
+  AudioMix,
+  AudioSourceError,
+  validateAudioSources,
+  loadAudioSources,
+  prepareAudioSources,
+  buildAudioMix,
+};
@@ -0,0 +1,202 @@
+import type { Page } from 'puppeteer';
+import { Logger, createLogger } from './logger';
+
+const log = createLogger('browser');
+
+/**
+ * One way of getting a page to start playing sound
+ * `run` returns false when it found nothing to act on, so the next strategy is tried right away.
+ */
+interface AutoplayStrategy {
+  name: string;
+  run: (page: Page, logger: Logger) => Promise<boolean>;
+}
+
+interface AutoplayOptions {
+  // Strategy names, tried in this order (default: DEFAULT_AUTOPLAY_STRATEGIES)
+  strategies?: string[];
+  // Returns true once audio is actually flowing (e.g. a sink input exists in our PulseAudio sink)
+  confirm: () => Promise<boolean>;
+  // How long to give a strategy before checking for audio
+  settleTime?: number;
+  // Where the attempts are logged (default: a plain `browser` logger)
+  logger?: Logger;
+}
+
+/**
+ * Call play() on every paused <audio>/<video> element, unmuting it first
+ */
+const mediaPlayStrategy: AutoplayStrategy = {
+  name: 'media-play',
+  run: async (page) => {
+    const started = await page.evaluate(`(async () => {
+      const media = Array.from(document.querySelectorAll('audio, video'));
+      let started = 0;
+      for (const el of media) {
+        if (!el.paused && !el.muted) continue;
+        el.muted = false;
+        try {
+          await el.play();
+          started++;
+        } catch (e) {
+          // Blocked or no source - another strategy may still work
+        }
+      }
+      return started;
+    })()`);
+    return (started as number) > 0;
+  },
+};
+
+/**
+ * Resume every suspended AudioContext (Web Audio players, games, synths)
+ * Contexts are found through the DevTools heap, so no hook has to be installed before the page loads.
+ */
+const resumeAudioContextStrategy: AutoplayStrategy = {
+  name: 'resume-audio-context',
+  run: async (page) => {
+    if (!(await page.evaluate('typeof BaseAudioContext !== "undefined"'))) {
+      return false;
+    }
+    const prototype = await page.evaluateHandle('BaseAudioContext.prototype');
+    try {
+      const contexts = await page.queryObjects(prototype);
+      try {
+        const resumed = await contexts.evaluate(async (list: any[]) => {
+          const suspended = list.filter((context) => context.state === 'suspended');
+          await Promise.all(suspended.map((context) => context.resume().catch(() => {})));
+          return suspended.length;
+        });
+        return resumed > 0;
+      } finally {
+        await contexts.dispose();
+      }
+    } finally {
+      await prototype.dispose();
+    }
+  },
+};
+
+/**
+ * Click the largest visible media control with a real (trusted) mouse click
+ * Candidates are <video> elements and buttons inside something that holds media or
+ * looks like a player - no label text is involved, so it works in any language.
+ * Skipped while any media element is playing: on most players the click would toggle it to pause.
+ */
+const clickMediaControlStrategy: AutoplayStrategy = {
+  name: 'click-media-control',
+  run: async (page, logger) => {
+    const target = await page.evaluate(`(() => {
+      if (Array.from(document.querySelectorAll('audio, video')).some((el) => !el.paused)) return 'playing';
+      const looksLikePlayer = (el) => {
+        for (let node = el; node && node !== document.body; node = node.parentElement) {
+          if (node.querySelector && node.querySelector('audio, video')) return true;
+          const hint = ((node.id || '') + ' ' + (typeof node.className === 'string' ? node.className : '')).toLowerCase();
+          if (/play|player|media|audio|video|sound/.test(hint)) return true;
+        }
+        return false;
+      };
+      const candidates = Array.from(document.querySelectorAll('video, button, [role="button"], [class*="play" i], [id*="play" i]'))
+        .filter((el) => el.tagName === 'VIDEO' || looksLikePlayer(el));
+      let best = null;
+      for (const el of candidates) {
+        const rect = el.getBoundingClientRect();
+        const style = getComputedStyle(el);
+        const visible = rect.width > 4 && rect.height > 4 && style.visibility !== 'hidden' && style.display !== 'none'
+          && rect.bottom > 0 && rect.right > 0 && rect.top < innerHeight && rect.left < innerWidth;
+        const area = rect.width * rect.height;
+        if (visible && (!best || area > best.area)) {
+          best = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2, area, tag: el.tagName };
+        }
+      }
+      return best;
+    })()`) as { x: number; y: number; tag: string } | 'playing' | null;
+
+    if (target === 'playing') {
+      logger.info('Media is already playing, not clicking its controls');
+      return false;
+    }
+    if (!target) {
+      return false;
+    }
+    logger.info(`Clicking ${target.tag.toLowerCase()} media control at (${Math.round(target.x)}, ${Math.round(target.y)})`);
+    await page.mouse.click(target.x, target.y);
+    return true;
+  },
+};
+
+const strategies = new Map<string, AutoplayStrategy>();
+
+/**
+ * Make a strategy available by name (built-ins are registered below)
+ */
+function registerAutoplayStrategy(strategy: AutoplayStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+registerAutoplayStrategy(mediaPlayStrategy);
+registerAutoplayStrategy(resumeAudioContextStrategy);
+registerAutoplayStrategy(clickMediaControlStrategy);
+
+const DEFAULT_AUTOPLAY_STRATEGIES = ['media-play', 'resume-audio-context', 'click-media-control'];
+
+/**
+ * Try strategies in order until audio is confirmed
+ * Returns the name of the strategy that worked ('already-playing' if none was needed), or null.
+ */
+async function unlockAudio(page: Page, options: AutoplayOptions): Promise<string | null> {
+  const { confirm, settleTime = 2000, logger = log } = options;
+  const names = options.strategies ?? DEFAULT_AUTOPLAY_STRATEGIES;
+
+  if (await confirm()) {
+    logger.info('Audio is already playing');
+    return 'already-playing';
+  }
+
+  for (const name of names) {
+    const strategy = strategies.get(name);
+    if (!strategy) {
+      logger.warn(`Unknown autoplay strategy "${name}", skipping. Available: ${Array.from(strategies.keys()).join(', ')}`);
+      continue;
+    }
+
+    let acted = false;
+    try {
+      acted = await strategy.run(page, logger);
+    } catch (error) {
+      logger.warn(`Autoplay strategy ${name} failed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!acted) {
+      logger.info(`Autoplay strategy ${name}: nothing to do`);
+      continue;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, settleTime));
+    if (await confirm()) {
+      logger.info(`Audio started (autoplay strategy: ${name})`);
+      return name;
+    }
+    logger.info(`Autoplay strategy ${name} ran but no audio yet`);
+  }
+
+  logger.warn('Could not confirm audio after trying all autoplay strategies');
+  return null;
+}
+
+/**
+ * Page-side audio check for platforms without our own PulseAudio sink
+ */
+async function isPageAudible(page: Page): Promise<boolean> {
+  const playing = await page.evaluate(`Array.from(document.querySelectorAll('audio, video'))
+    .some((el) => !el.paused && !el.muted && el.volume > 0 && el.readyState > 2)`);
+  return playing as boolean;
+}
+
+export {
+  AutoplayStrategy,
+  AutoplayOptions,
+  DEFAULT_AUTOPLAY_STRATEGIES,
+  registerAutoplayStrategy,
+  unlockAudio,
+  isPageAudible,
+};
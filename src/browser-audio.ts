@@ -0,0 +1,233 @@
+import type { Page } from 'puppeteer';
+import { Logger, createLogger } from './logger';
+
+// Where the page's sound comes from:
+// pulse plays it into the stream's own PulseAudio sink and records the sink's monitor,
+// browser taps it inside the page with WebAudio and sends the samples over DevTools
+type AudioBackend = 'pulse' | 'browser';
+
+const AUDIO_BACKENDS: AudioBackend[] = ['pulse', 'browser'];
+
+interface BrowserAudioHooks {
+  // Hand interleaved s16le stereo at SAMPLE_RATE to FFmpeg
+  write: (chunk: Buffer) => void;
+  // The same sound as 8 kHz mono s16le, for the level meter
+  meter?: (samples: Buffer) => void;
+  // Where the capture logs (default: a plain `audio` logger)
+  logger?: Logger;
+}
+
+const SAMPLE_RATE = 48000;
+const BYTES_PER_FRAME = 4;
+// fd 3 carries FFmpeg's -progress, so the audio pipe is the next one
+const AUDIO_PIPE_FD = 4;
+// Fill with silence once the page is this far behind real time (ms), and cut what it
+// sends once it is this far ahead (e.g. a backlog arriving after that silence)
+const MAX_LAG = 250;
+const MAX_LAG_FRAMES = (SAMPLE_RATE * MAX_LAG) / 1000;
+const BINDING = '__webStreamerAudioChunk';
+
+/**
+ * FFmpeg input for the raw samples written to the audio pipe
+ */
+function browserAudioInputArgs(): string[] {
+  return ['-f', 's16le', '-ar', SAMPLE_RATE.toString(), '-ac', '2', '-i', `pipe:${AUDIO_PIPE_FD}`];
+}
+
+// Runs in the top document only: mixes media elements and the page's AudioContexts into one
+// capture context and posts its samples (base64 s16le stereo) to the binding. The binding and
+// the script reach every frame, and each frame's capture would be one more real-time stream in
+// the same pipe, so sound playing inside iframes is not captured.
+const CAPTURE_SCRIPT = `(() => {
+  if (window !== window.top || window.__webStreamerAudio) return;
+  const Context = window.AudioContext || window.webkitAudioContext;
+  if (!Context) return;
+  const capture = new Context({ sampleRate: ${SAMPLE_RATE} });
+  const mix = capture.createGain();
+  const processor = capture.createScriptProcessor(4096, 2, 2);
+  const sink = capture.createGain();
+  sink.gain.value = 0;
+  mix.connect(processor);
+  processor.connect(sink);
+  sink.connect(capture.destination);
+  const state = { sources: 0 };
+  window.__webStreamerAudio = state;
+
+  processor.onaudioprocess = (event) => {
+    const left = event.inputBuffer.getChannelData(0);
+    const right = event.inputBuffer.numberOfChannels > 1 ? event.inputBuffer.getChannelData(1) : left;
+    const pcm = new Int16Array(left.length * 2);
+    for (let i = 0; i < left.length; i++) {
+      const l = Math.max(-1, Math.min(1, left[i]));
+      const r = Math.max(-1, Math.min(1, right[i]));
+      pcm[2 * i] = l < 0 ? l * 0x8000 : l * 0x7fff;
+      pcm[2 * i + 1] = r < 0 ? r * 0x8000 : r * 0x7fff;
+    }
+    const bytes = new Uint8Array(pcm.buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+    }
+    if (window.${BINDING}) window.${BINDING}(btoa(binary));
+  };
+
+  const attachTrack = (track) => {
+    if (!track || track.kind !== 'audio') return;
+    capture.createMediaStreamSource(new MediaStream([track])).connect(mix);
+    state.sources++;
+    if (capture.state !== 'running') capture.resume().catch(() => {});
+  };
+
+  // <audio>/<video>: a copy of what they play; the element itself keeps playing as before
+  const hooked = new WeakSet();
+  const hookElement = (element) => {
+    if (hooked.has(element) || !element.captureStream) return;
+    try {
+      const stream = element.captureStream();
+      hooked.add(element);
+      stream.getAudioTracks().forEach(attachTrack);
+      stream.addEventListener('addtrack', (event) => attachTrack(event.track));
+    } catch (e) {}
+  };
+  document.addEventListener('playing', (event) => {
+    if (event.target instanceof HTMLMediaElement) hookElement(event.target);
+  }, true);
+  document.querySelectorAll('audio, video').forEach((element) => {
+    if (!element.paused) hookElement(element);
+  });
+
+  // Web Audio: whatever a page's context sends to its speakers also goes to the capture
+  const taps = new WeakMap();
+  const connect = AudioNode.prototype.connect;
+  AudioNode.prototype.connect = function (destination, ...rest) {
+    const result = connect.call(this, destination, ...rest);
+    if (destination instanceof AudioDestinationNode && destination.context !== capture) {
+      let tap = taps.get(destination.context);
+      if (!tap) {
+        tap = destination.context.createMediaStreamDestination();
+        taps.set(destination.context, tap);
+        attachTrack(tap.stream.getAudioTracks()[0]);
+      }
+      connect.call(this, tap, rest[0] || 0);
+    }
+    return result;
+  };
+})()`;
+
+/**
+ * Every 6th frame of 48 kHz stereo, both channels averaged: 8 kHz mono for the level meter
+ */
+function meterSamples(chunk: Buffer): Buffer {
+  const step = (SAMPLE_RATE / 8000) * BYTES_PER_FRAME;
+  const samples = Buffer.alloc(Math.floor(chunk.length / step) * 2);
+  for (let offset = 0, index = 0; offset + BYTES_PER_FRAME <= chunk.length && index < samples.length; offset += step, index += 2) {
+    samples.writeInt16LE((chunk.readInt16LE(offset) + chunk.readInt16LE(offset + 2)) >> 1, index);
+  }
+  return samples;
+}
+
+/**
+ * Captures the page's sound inside the browser, without PulseAudio
+ * An injected script mixes the page's media elements and Web Audio into one AudioContext and
+ * sends its samples to Node through a DevTools binding. FFmpeg reads them from its own pipe.
+ * When the page sends nothing (loading, relaunching, no sound yet), silence is written, so
+ * FFmpeg always gets audio in real time.
+ */
+class BrowserAudioCapture {
+  private timer: NodeJS.Timeout | null = null;
+  private startedAt = 0;
+  private framesWritten = 0;
+  private chunks = 0;
+  private lastChunkAt: number | null = null;
+  private muted = false;
+  private attached = false;
+  private log: Logger;
+
+  constructor(private hooks: BrowserAudioHooks) {
+    this.log = hooks.logger ?? createLogger('audio');
+  }
+
+  get status() {
+    return {
+      attached: this.attached,
+      chunksReceived: this.chunks,
+      lastChunkAt: this.lastChunkAt ? new Date(this.lastChunkAt).toISOString() : null,
+      muted: this.muted,
+    };
+  }
+
+  /**
+   * Install the capture in the page's current and future documents
+   * Call again for the page of a relaunched browser.
+   */
+  async attach(page: Page): Promise<void> {
+    await page.exposeFunction(BINDING, (data: string) => this.receive(Buffer.from(data, 'base64')));
+    await page.evaluateOnNewDocument(CAPTURE_SCRIPT);
+    // The first document may already be loaded (app mode)
+    await page.evaluate(CAPTURE_SCRIPT).catch((error) => this.log.warn('Could not install audio capture in the current page', { error }));
+    this.attached = true;
+    this.log.info('Capturing page audio in the browser');
+  }
+
+  /**
+   * Start keeping FFmpeg's audio in real time
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.startedAt = Date.now();
+    this.framesWritten = 0;
+    this.timer = setInterval(() => this.fillSilence(), 100);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.attached = false;
+  }
+
+  /**
+   * Keep the page's sound out of the stream (e.g. behind a playlist slate)
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.chunks++;
+    this.lastChunkAt = Date.now();
+    if (!this.timer) {
+      return;
+    }
+    // Past the silence written while the page was quiet, so drop what would run ahead of real time
+    const room = this.due() + MAX_LAG_FRAMES - this.framesWritten;
+    if (room <= 0) {
+      return;
+    }
+    const accepted = chunk.subarray(0, Math.min(chunk.length, room * BYTES_PER_FRAME));
+    this.push(this.muted ? Buffer.alloc(accepted.length) : accepted);
+  }
+
+  private fillSilence(): void {
+    const missing = this.due() - this.framesWritten;
+    if (missing > MAX_LAG_FRAMES) {
+      this.push(Buffer.alloc(Math.min(missing, SAMPLE_RATE) * BYTES_PER_FRAME));
+    }
+  }
+
+  // Frames FFmpeg should have had by now
+  private due(): number {
+    return Math.floor(((Date.now() - this.startedAt) / 1000) * SAMPLE_RATE);
+  }
+
+  private push(chunk: Buffer): void {
+    this.framesWritten += chunk.length / BYTES_PER_FRAME;
+    this.hooks.write(chunk);
+    this.hooks.meter?.(meterSamples(chunk));
+  }
+}
+
+export { AudioBackend, AUDIO_BACKENDS, AUDIO_PIPE_FD, BrowserAudioCapture, browserAudioInputArgs };
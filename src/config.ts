@@ -0,0 +1,678 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { StreamConfig } from './index';
+import { validateActions, loadActionScript, legacyClickActions } from './actions';
+import { validateAudioSources, loadAudioSources } from './audio-mix';
+import { validateOverlays, loadOverlays } from './overlays';
+import { validatePlaylist, loadPlaylist } from './playlist';
+import { ScheduleOptions, validateSchedule, loadSchedule } from './scheduler';
+import { validateFallback } from './fallback';
+import { validateRegion, parseRegion } from './region';
+import { parseSize } from './recorder';
+import { ENCODER_PROFILES, VIDEO_CODECS, AUDIO_CODECS, SCALE_MODES } from './encoder';
+import { CAPTURE_BACKENDS } from './screencast';
+import { AUDIO_BACKENDS } from './browser-audio';
+import { LogLevel, LogFormat, LOG_LEVELS, redactUrl } from './logger';
+
+type OptionType = 'string' | 'integer' | 'number' | 'boolean' | 'custom';
+
+// One setting: its place in the config file, its flag and environment variable, and what it accepts
+interface OptionSpec {
+  // Field in the config file and StreamConfig; dots for nested objects (e.g. "encoder.crf")
+  key: string;
+  type: OptionType;
+  description: string;
+  flag?: string;
+  env?: string;
+  // A setting of the process (control API, logging, schedule) rather than of the stream
+  process?: boolean;
+  values?: readonly string[];
+  minimum?: number;
+  // Must be above `minimum`, not equal to it
+  exclusiveMinimum?: boolean;
+  maximum?: number;
+  even?: boolean;
+  pattern?: RegExp;
+  // A file path; relative paths in a config file are taken from the file's directory
+  path?: boolean;
+  // Value-less flag that turns the setting off (e.g. --no-watchdog)
+  negate?: boolean;
+  // Text from the command line or environment into a value (load a file, split a list)
+  parse?: (text: string) => unknown;
+  // Check a custom value and return it in its final form
+  check?: (value: unknown) => unknown;
+  // JSON schema of a custom value
+  schema?: Record<string, unknown>;
+  // Documented in the schema; the stream applies its own defaults
+  default?: unknown;
+}
+
+// Settings that belong to the process instead of a single stream
+interface Settings {
+  // Every field given, checked; url and outputs may still be missing (the control API can start streams later)
+  stream: Partial<StreamConfig>;
+  controlPort?: number;
+  controlToken?: string;
+  maxStreams?: number;
+  schedule?: ScheduleOptions;
+  logLevel?: LogLevel;
+  logFormat?: LogFormat;
+  // The config file that was read, if any
+  configFile?: string;
+}
+
+// A value and where it came from, for error messages
+interface Entry {
+  value: unknown;
+  source: string;
+}
+
+class ConfigError extends Error {}
+
+// Flags that run a command instead of setting something
+const COMMAND_FLAGS = ['--list-devices', '--print-config', '--print-schema'];
+const CONFIG_FLAG = '--config';
+const CONFIG_ENV = 'CONFIG_FILE';
+
+const RATE_PATTERN = /^\d+(\.\d+)?[kKmM]?$/;
+
+const list = (text: string) => text.split(',').map((item) => item.trim()).filter((item) => item);
+
+const OPTIONS: OptionSpec[] = [
+  // Page and outputs
+  { key: 'url', type: 'string', env: 'WEBPAGE_URL', description: 'Webpage to stream (first command line argument)' },
+  {
+    key: 'rtmpsUrl', type: 'custom', env: 'RTMPS_URL',
+    description: 'Output URL(s): rtmp(s)://, srt://, udp:// or a local .m3u8 path; several to simulcast (second command line argument, comma-separated)',
+    parse: (text) => {
+      const urls = list(text);
+      return urls.length === 1 ? urls[0] : urls;
+    },
+    check: (value) => {
+      const urls = Array.isArray(value) ? value : [value];
+      if (urls.length === 0 || urls.some((url) => typeof url !== 'string' || !url)) {
+        throw new ConfigError('must be a URL or a list of URLs');
+      }
+      return value;
+    },
+    schema: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' }, minItems: 1 }] },
+  },
+  { key: 'width', type: 'integer', flag: '--width', env: 'WIDTH', minimum: 1, default: 1920, description: 'Browser window width (CSS pixels)' },
+  { key: 'height', type: 'integer', flag: '--height', env: 'HEIGHT', minimum: 1, default: 1080, description: 'Browser window height (CSS pixels)' },
+  { key: 'fps', type: 'integer', flag: '--fps', env: 'FPS', minimum: 1, description: 'Frame rate (default: 30, or the encoder profile\'s rate)' },
+  { key: 'streamWidth', type: 'integer', flag: '--stream-width', env: 'STREAM_WIDTH', minimum: 2, even: true, description: 'Stream output width (default: the browser width)' },
+  { key: 'streamHeight', type: 'integer', flag: '--stream-height', env: 'STREAM_HEIGHT', minimum: 2, even: true, description: 'Stream output height (default: the browser height)' },
+  { key: 'scaleMode', type: 'string', flag: '--scale-mode', env: 'SCALE_MODE', values: SCALE_MODES, default: 'stretch', description: 'How the capture fits a stream size with another aspect ratio' },
+  { key: 'padColor', type: 'string', flag: '--pad-color', env: 'PAD_COLOR', pattern: /^#?[\w.@]+$/, default: 'black', description: 'Letterbox bar color (name, #rrggbb or 0xrrggbb)' },
+  { key: 'deviceScaleFactor', type: 'number', flag: '--device-scale-factor', env: 'DEVICE_SCALE_FACTOR', minimum: 0, exclusiveMinimum: true, maximum: 4, default: 1, description: 'Render the page at this pixel ratio (e.g. 2 for HiDPI)' },
+
+  // Capture
+  { key: 'captureBackend', type: 'string', flag: '--capture-backend', env: 'CAPTURE_BACKEND', values: CAPTURE_BACKENDS, default: 'screen', description: 'How the picture is captured' },
+  { key: 'audioBackend', type: 'string', flag: '--audio-backend', env: 'AUDIO_BACKEND', values: AUDIO_BACKENDS, default: 'pulse', description: 'How the page\'s sound is captured' },
+  { key: 'captureSelector', type: 'string', flag: '--capture-selector', env: 'CAPTURE_SELECTOR', description: 'Stream only this element (CSS selector); the capture follows it' },
+  {
+    key: 'captureRegion', type: 'custom', flag: '--capture-region', env: 'CAPTURE_REGION',
+    description: 'Stream only this rectangle of the page, in CSS pixels ("x,y,width,height" on the command line)',
+    parse: parseRegion,
+    check: validateRegion,
+    schema: {
+      type: 'object',
+      properties: { x: { type: 'number', minimum: 0 }, y: { type: 'number', minimum: 0 }, width: { type: 'number', minimum: 2 }, height: { type: 'number', minimum: 2 } },
+      required: ['x', 'y', 'width', 'height'],
+      additionalProperties: false,
+    },
+  },
+  { key: 'captureTrackInterval', type: 'number', flag: '--capture-track-interval', env: 'CAPTURE_TRACK_INTERVAL', minimum: 0, default: 5, description: 'Seconds between checks of where the capture element is (0 = only at start)' },
+  { key: 'useVirtualDisplay', type: 'boolean', env: 'USE_VIRTUAL_DISPLAY', description: 'Run the browser on its own Xvfb display (always on Linux without DISPLAY)' },
+  { key: 'audioDevice', type: 'string', flag: '--audio-device', description: 'Audio device ID (macOS) or PulseAudio source' },
+  { key: 'videoDevice', type: 'string', flag: '--video-device', description: 'Video device ID (macOS)' },
+
+  // Page interaction
+  {
+    key: 'actions', type: 'custom', flag: '--actions', env: 'ACTIONS_FILE', path: true,
+    description: 'Action script run after the page loads, inline or a JSON/YAML file',
+    parse: loadActionScript,
+    check: validateActions,
+    schema: { type: ['array', 'string'], items: { type: 'object' } },
+  },
+  {
+    key: 'autoplay', type: 'custom', flag: '--autoplay', env: 'AUTOPLAY',
+    description: 'Autoplay strategies to try, or false to skip ("none" or a comma-separated list on the command line)',
+    parse: (text) => (text === 'none' || text === 'false' ? false : list(text)),
+    check: (value) => {
+      if (value !== false && (!Array.isArray(value) || value.some((name) => typeof name !== 'string'))) {
+        throw new ConfigError('must be a list of strategy names or false');
+      }
+      return value;
+    },
+    schema: { oneOf: [{ type: 'array', items: { type: 'string' } }, { const: false }] },
+  },
+  { key: 'clickSelector', type: 'string', flag: '--click-selector', env: 'CLICK_SELECTOR', description: 'CSS selector to click after load (when there is no action script)' },
+  { key: 'clickX', type: 'integer', flag: '--click-x', env: 'CLICK_X', minimum: 0, description: 'X coordinate to click (with clickY)' },
+  { key: 'clickY', type: 'integer', flag: '--click-y', env: 'CLICK_Y', minimum: 0, description: 'Y coordinate to click (with clickX)' },
+  { key: 'clickDelay', type: 'integer', flag: '--click-delay', env: 'CLICK_DELAY', minimum: 0, default: 1000, description: 'Milliseconds to wait after the click' },
+
+  // Supervision
+  { key: 'maxRestarts', type: 'integer', flag: '--max-restarts', env: 'MAX_RESTARTS', minimum: -1, default: 10, description: 'FFmpeg restarts before giving up (-1 = unlimited)' },
+  { key: 'restartDelay', type: 'integer', env: 'RESTART_DELAY', minimum: 0, description: 'Milliseconds before the first FFmpeg restart' },
+  { key: 'maxRestartDelay', type: 'integer', env: 'MAX_RESTART_DELAY', minimum: 0, description: 'Longest wait between FFmpeg restarts (ms)' },
+  { key: 'watchdog', type: 'boolean', flag: '--no-watchdog', negate: true, env: 'WATCHDOG', default: true, description: 'Relaunch the browser when it crashes or hangs' },
+  { key: 'watchdogInterval', type: 'integer', env: 'WATCHDOG_INTERVAL', minimum: 1, description: 'Milliseconds between browser health checks' },
+
+  // Audio
+  { key: 'audioGateTimeout', type: 'integer', flag: '--audio-gate-timeout', env: 'AUDIO_GATE_TIMEOUT', minimum: 0, default: 30000, description: 'Wait this long (ms) for sound before streaming (0 = don\'t wait)' },
+  { key: 'silenceThreshold', type: 'number', flag: '--silence-threshold', env: 'SILENCE_THRESHOLD', maximum: 0, default: -50, description: 'Level (dBFS) counted as silence' },
+  { key: 'silenceAlertAfter', type: 'number', flag: '--silence-alert-after', env: 'SILENCE_ALERT_AFTER', minimum: 0, default: 30, description: 'Alert after this many seconds of silence mid-stream (0 = never)' },
+  {
+    key: 'audioSources', type: 'custom', flag: '--audio-sources', env: 'AUDIO_SOURCES_FILE', path: true,
+    description: 'Extra audio mixed under the page, inline or a JSON/YAML file',
+    parse: loadAudioSources,
+    check: validateAudioSources,
+    schema: { type: ['array', 'string'], items: { type: 'object' } },
+  },
+  { key: 'pageVolume', type: 'number', flag: '--page-volume', env: 'PAGE_VOLUME', minimum: 0, default: 1, description: 'Volume of the page audio in the mix' },
+
+  // Content
+  {
+    key: 'overlays', type: 'custom', flag: '--overlays', env: 'OVERLAYS_FILE', path: true,
+    description: 'Overlays drawn on top of the page, inline or a JSON/YAML file',
+    parse: loadOverlays,
+    check: validateOverlays,
+    schema: { type: ['array', 'string'], items: { type: 'object' } },
+  },
+  {
+    key: 'playlist', type: 'custom', flag: '--playlist', env: 'PLAYLIST_FILE', path: true,
+    description: 'Pages to rotate through instead of one URL, inline or a JSON/YAML file',
+    parse: loadPlaylist,
+    check: validatePlaylist,
+    schema: { type: ['object', 'string'] },
+  },
+  { key: 'fallback.path', type: 'string', flag: '--fallback', env: 'FALLBACK_PATH', path: true, description: 'Image, HTML file or video shown while the page is down' },
+  { key: 'fallback.text', type: 'string', flag: '--fallback-text', env: 'FALLBACK_TEXT', description: 'Text slate shown while the page is down, when there is no fallback file' },
+  { key: 'fallback.background', type: 'string', description: 'Background behind the fallback' },
+  { key: 'fallback.checkInterval', type: 'number', minimum: 0, exclusiveMinimum: true, default: 15, description: 'Seconds between checks whether the page is back' },
+
+  // Encoding
+  { key: 'lightweight', type: 'boolean', flag: '--lightweight', env: 'LIGHTWEIGHT', description: 'Lightweight mode (same as the lightweight encoder profile)' },
+  { key: 'encoderProfile', type: 'string', flag: '--profile', env: 'ENCODER_PROFILE', values: Object.keys(ENCODER_PROFILES), default: 'standard', description: 'Encoder profile' },
+  { key: 'encoder.videoCodec', type: 'string', flag: '--video-codec', env: 'VIDEO_CODEC', values: VIDEO_CODECS, description: 'Video codec' },
+  { key: 'encoder.audioCodec', type: 'string', flag: '--audio-codec', env: 'AUDIO_CODEC', values: AUDIO_CODECS, description: 'Audio codec' },
+  { key: 'encoder.preset', type: 'string', flag: '--preset', env: 'VIDEO_PRESET', description: 'Encoder preset (e.g. ultrafast, veryfast)' },
+  { key: 'encoder.tune', type: 'string', flag: '--tune', env: 'VIDEO_TUNE', description: 'Encoder tune (e.g. zerolatency, stillimage)' },
+  { key: 'encoder.crf', type: 'integer', flag: '--crf', env: 'VIDEO_CRF', minimum: 0, maximum: 63, description: 'Constant rate factor' },
+  { key: 'encoder.maxrate', type: 'string', flag: '--maxrate', env: 'VIDEO_MAXRATE', pattern: RATE_PATTERN, description: 'Max video bitrate (e.g. 2500k)' },
+  { key: 'encoder.bufsize', type: 'string', flag: '--bufsize', env: 'VIDEO_BUFSIZE', pattern: RATE_PATTERN, description: 'Rate control buffer (e.g. 5000k)' },
+  { key: 'encoder.threads', type: 'integer', flag: '--threads', env: 'ENCODER_THREADS', minimum: 0, description: 'Encoder threads (0 = auto)' },
+  { key: 'encoder.audioBitrate', type: 'string', flag: '--audio-bitrate', env: 'AUDIO_BITRATE', pattern: RATE_PATTERN, description: 'Audio bitrate (e.g. 128k)' },
+  { key: 'encoder.audioSampleRate', type: 'integer', flag: '--audio-sample-rate', env: 'AUDIO_SAMPLE_RATE', minimum: 8000, description: 'Audio sample rate (Hz)' },
+
+  // Recording and preview
+  { key: 'record.path', type: 'string', flag: '--record', env: 'RECORD_PATH', path: true, description: 'Record to this directory, or a file prefix like /data/show.mkv' },
+  { key: 'record.format', type: 'string', flag: '--record-format', env: 'RECORD_FORMAT', values: ['mp4', 'mkv'], description: 'Recording container (default: from the path, otherwise mp4)' },
+  { key: 'record.segmentTime', type: 'integer', flag: '--record-segment-time', env: 'RECORD_SEGMENT_TIME', minimum: 1, default: 600, description: 'Start a new file every N seconds' },
+  {
+    key: 'record.segmentSize', type: 'custom', flag: '--record-segment-size', env: 'RECORD_SEGMENT_SIZE',
+    description: 'Also start a new file at this size (bytes, or e.g. 2G)',
+    parse: parseSize,
+    check: (value) => {
+      const size = typeof value === 'string' ? parseSize(value) : value;
+      if (typeof size !== 'number' || !Number.isFinite(size) || size <= 0) {
+        throw new ConfigError('must be a size such as 500M or 2G');
+      }
+      return size;
+    },
+    schema: { type: ['integer', 'string'] },
+  },
+  { key: 'record.maxFiles', type: 'integer', flag: '--record-max-files', env: 'RECORD_MAX_FILES', minimum: 1, description: 'Delete the oldest recordings beyond this count' },
+  { key: 'record.maxAge', type: 'integer', flag: '--record-max-age', env: 'RECORD_MAX_AGE', minimum: 1, description: 'Delete recordings older than this many seconds' },
+  { key: 'preview', type: 'boolean', flag: '--preview', env: 'PREVIEW', description: 'Write a low-bitrate HLS preview (needs the control API)' },
+
+  // Process
+  { key: 'controlPort', type: 'integer', flag: '--control-port', env: 'CONTROL_PORT', process: true, minimum: 0, maximum: 65535, description: 'Start the HTTP control API on this port' },
+  { key: 'controlToken', type: 'string', env: 'CONTROL_TOKEN', process: true, description: 'Bearer token required by the control API' },
+  { key: 'maxStreams', type: 'integer', env: 'MAX_STREAMS', process: true, minimum: 1, default: 4, description: 'Maximum concurrent streams' },
+  {
+    key: 'schedule', type: 'custom', flag: '--schedule', env: 'SCHEDULE_FILE', process: true, path: true,
+    description: 'Windows during which the stream runs, inline or a JSON/YAML file',
+    parse: loadSchedule,
+    check: validateSchedule,
+    schema: { type: ['object', 'string'] },
+  },
+  { key: 'logLevel', type: 'string', flag: '--log-level', env: 'LOG_LEVEL', process: true, values: LOG_LEVELS, default: 'info', description: 'Log level' },
+  { key: 'logFormat', type: 'string', flag: '--log-format', env: 'LOG_FORMAT', process: true, values: ['json', 'text'], description: 'Log format (default: json unless on a terminal)' },
+];
+
+const OPTIONS_BY_KEY = new Map(OPTIONS.map((spec) => [spec.key, spec]));
+const OPTIONS_BY_FLAG = new Map(OPTIONS.filter((spec) => spec.flag).map((spec) => [spec.flag!, spec]));
+// Nested objects of the config file (encoder, record, fallback)
+const GROUPS = new Set(OPTIONS.filter((spec) => spec.key.includes('.')).map((spec) => spec.key.split('.')[0]));
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Our own checks read as the rest of a sentence ("--x must be ..."), other modules' errors stand alone
+function sentence(error: unknown): string {
+  return error instanceof ConfigError ? ` ${error.message}` : `: ${message(error)}`;
+}
+
+/**
+ * What a setting accepts, for error messages ("an integer >= 1", "one of mp4, mkv")
+ */
+function expected(spec: OptionSpec): string {
+  if (spec.values) {
+    return `one of ${spec.values.join(', ')}`;
+  }
+  const kinds: Record<OptionType, string> = {
+    string: 'a non-empty string',
+    integer: spec.even ? 'an even integer' : 'an integer',
+    number: 'a number',
+    boolean: 'true or false',
+    custom: 'a valid value',
+  };
+  const bounds: string[] = [];
+  if (spec.minimum !== undefined) {
+    bounds.push(`${spec.exclusiveMinimum ? '>' : '>='} ${spec.minimum}`);
+  }
+  if (spec.maximum !== undefined) {
+    bounds.push(`<= ${spec.maximum}`);
+  }
+  return [kinds[spec.type], bounds.join(' and ')].filter((part) => part).join(' ');
+}
+
+/**
+ * A flag or environment variable's text as the setting's type
+ * Text that doesn't convert is kept, so the check reports it with the expected type.
+ */
+function fromText(spec: OptionSpec, text: string, source: string): unknown {
+  switch (spec.type) {
+    case 'integer':
+      return /^[-+]?\d+$/.test(text.trim()) ? Number(text) : text;
+    case 'number':
+      return text.trim() !== '' && Number.isFinite(Number(text)) ? Number(text) : text;
+    case 'boolean': {
+      const value = text.trim().toLowerCase();
+      return ['true', '1', 'yes'].includes(value) ? true : ['false', '0', 'no'].includes(value) ? false : text;
+    }
+    case 'custom':
+      try {
+        return spec.parse ? spec.parse(text) : text;
+      } catch (error) {
+        throw new ConfigError(`${source}${sentence(error)}`);
+      }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Check one value against its setting and return it in its final form
+ */
+function checkValue(spec: OptionSpec, value: unknown, source: string): unknown {
+  if (spec.type === 'custom') {
+    try {
+      return spec.check ? spec.check(value) : value;
+    } catch (error) {
+      throw new ConfigError(`${source}${sentence(error)}`);
+    }
+  }
+
+  const valid =
+    (spec.type === 'string' && typeof value === 'string' && value !== '') ||
+    (spec.type === 'integer' && Number.isInteger(value)) ||
+    (spec.type === 'number' && typeof value === 'number' && Number.isFinite(value)) ||
+    (spec.type === 'boolean' && typeof value === 'boolean');
+  const number = value as number;
+  if (
+    !valid ||
+    (spec.values && !spec.values.includes(value as string)) ||
+    (spec.pattern && !spec.pattern.test(value as string)) ||
+    (spec.minimum !== undefined && (spec.exclusiveMinimum ? number <= spec.minimum : number < spec.minimum)) ||
+    (spec.maximum !== undefined && number > spec.maximum) ||
+    (spec.even && number % 2 !== 0)
+  ) {
+    throw new ConfigError(`${source} must be ${expected(spec)}, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Settings from a config-file-shaped object (also the body of POST /streams)
+ * Unknown fields are an error, so a misspelled setting never goes unnoticed.
+ */
+function readObject(input: Record<string, unknown>, where: string, file?: string): Map<string, Entry> {
+  const entries = new Map<string, Entry>();
+  const source = (key: string) => (where ? `"${key}" in ${where}` : `"${key}"`);
+
+  const walk = (object: Record<string, unknown>, prefix: string) => {
+    for (const [name, value] of Object.entries(object)) {
+      const key = prefix + name;
+      const spec = OPTIONS_BY_KEY.get(key);
+      if (value === undefined || (!prefix && name === '$schema')) {
+        continue;
+      }
+      if (spec) {
+        let resolved: unknown = value;
+        // File references in a config file are relative to it
+        if (spec.path && file && typeof value === 'string') {
+          const target = path.resolve(path.dirname(file), value);
+          resolved = spec.type === 'custom' ? fromText(spec, target, source(key)) : target;
+        }
+        entries.set(key, { value: resolved, source: source(key) });
+      } else if (!prefix && GROUPS.has(name)) {
+        if (!isObject(value)) {
+          throw new ConfigError(`${source(key)} must be an object`);
+        }
+        walk(value, `${name}.`);
+      } else {
+        throw new ConfigError(`Unknown setting ${source(key)}`);
+      }
+    }
+  };
+  walk(input, '');
+  return entries;
+}
+
+/**
+ * Read a JSON or YAML config file
+ */
+function readConfigFile(file: string): Map<string, Entry> {
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Could not read config file ${file}: ${message(error)}`);
+  }
+  const ext = path.extname(file).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`Could not parse config file ${file}: ${message(error)}`);
+  }
+  if (!isObject(parsed)) {
+    throw new ConfigError(`Config file ${file} must contain an object`);
+  }
+  return readObject(parsed, path.basename(file), file);
+}
+
+/**
+ * Settings from environment variables (empty ones count as unset)
+ */
+function readEnv(env: NodeJS.ProcessEnv): Map<string, Entry> {
+  const entries = new Map<string, Entry>();
+  for (const spec of OPTIONS) {
+    const text = spec.env ? env[spec.env] : undefined;
+    if (spec.env && text) {
+      entries.set(spec.key, { value: fromText(spec, text, spec.env), source: spec.env });
+    }
+  }
+  return entries;
+}
+
+interface CommandLine {
+  entries: Map<string, Entry>;
+  commands: Set<string>;
+  configFile?: string;
+}
+
+/**
+ * Settings from the command line: `<webpage-url> <output-url> [--flag value | --switch]...`
+ */
+function readArgs(args: string[]): CommandLine {
+  const entries = new Map<string, Entry>();
+  const commands = new Set<string>();
+  const positional: string[] = [];
+  let configFile: string | undefined;
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    if (COMMAND_FLAGS.includes(arg)) {
+      commands.add(arg);
+      continue;
+    }
+    const spec = OPTIONS_BY_FLAG.get(arg);
+    if (!spec && arg !== CONFIG_FLAG) {
+      throw new ConfigError(`Unknown option ${arg}`);
+    }
+    if (spec?.type === 'boolean') {
+      entries.set(spec.key, { value: !spec.negate, source: arg });
+      continue;
+    }
+    const text = args[index + 1];
+    if (text === undefined || text.startsWith('--')) {
+      throw new ConfigError(`${arg} needs a value`);
+    }
+    index++;
+    if (spec) {
+      entries.set(spec.key, { value: fromText(spec, text, arg), source: arg });
+    } else {
+      configFile = text;
+    }
+  }
+
+  if (positional.length > 2) {
+    throw new ConfigError(`Unexpected argument "${positional[2]}" (expected a webpage URL and an output URL)`);
+  }
+  if (positional[0]) {
+    entries.set('url', { value: positional[0], source: 'the webpage URL argument' });
+  }
+  if (positional[1]) {
+    entries.set('rtmpsUrl', { value: fromText(OPTIONS_BY_KEY.get('rtmpsUrl')!, positional[1], 'the output URL argument'), source: 'the output URL argument' });
+  }
+  return { entries, commands, configFile };
+}
+
+/**
+ * Check every entry and nest them into the config's shape
+ */
+function assemble(entries: Map<string, Entry>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, { value, source }] of entries) {
+    const spec = OPTIONS_BY_KEY.get(key)!;
+    const checked = checkValue(spec, value, source);
+    const [group, field] = key.split('.');
+    if (field) {
+      result[group] = { ...result[group], [field]: checked };
+    } else {
+      result[key] = checked;
+    }
+  }
+  return result;
+}
+
+/**
+ * The stream part of the settings in its final form: fallback checked as a whole, old click options
+ * turned into an action script, and the playlist's first page as the URL
+ */
+function finishStream(config: Record<string, any>, where: string): Partial<StreamConfig> {
+  const source = (key: string) => (where ? `"${key}" in ${where}` : `"${key}"`);
+  if (config.record && !config.record.path) {
+    throw new ConfigError(`${source('record.path')} is required when recording`);
+  }
+  if (config.fallback) {
+    try {
+      config.fallback = validateFallback(config.fallback);
+    } catch (error) {
+      throw new ConfigError(`${source('fallback')}: ${message(error)}`);
+    }
+  }
+  if (config.actions === undefined && (config.clickSelector || config.clickX !== undefined)) {
+    // Older clients and deployments still use the single-click options
+    try {
+      config.actions = legacyClickActions(config.clickSelector, config.clickX, config.clickY, config.clickDelay);
+    } catch (error) {
+      throw new ConfigError(message(error));
+    }
+  }
+  delete config.clickSelector;
+  delete config.clickX;
+  delete config.clickY;
+  delete config.clickDelay;
+  if (config.playlist) {
+    // The playlist's first page is what the stream opens with
+    config.url = config.playlist.pages[0].url;
+  }
+  return config as Partial<StreamConfig>;
+}
+
+/**
+ * Check a complete stream config (the body of POST /streams, or the merged settings)
+ */
+function validateStreamConfig(input: unknown): StreamConfig {
+  if (!isObject(input)) {
+    throw new ConfigError('Stream config must be an object');
+  }
+  const entries = readObject(input, '');
+  for (const key of entries.keys()) {
+    if (OPTIONS_BY_KEY.get(key)!.process) {
+      throw new ConfigError(`"${key}" is a setting of the process, not of a stream`);
+    }
+  }
+  return checkComplete(finishStream(assemble(entries), ''));
+}
+
+function checkComplete(config: Partial<StreamConfig>): StreamConfig {
+  if (!config.url) {
+    throw new ConfigError('"url" is required');
+  }
+  if (config.rtmpsUrl === undefined && !config.record) {
+    throw new ConfigError('"rtmpsUrl" is required (a URL or a list of URLs) unless "record" is set');
+  }
+  return config as StreamConfig;
+}
+
+/**
+ * Whether a stream can be started from these settings (a page and somewhere to send it)
+ */
+function isStreamComplete(stream: Partial<StreamConfig>): stream is StreamConfig {
+  return Boolean(stream.url && (stream.rtmpsUrl !== undefined || stream.record));
+}
+
+/**
+ * Load the settings: config file, then environment, then command line, each overriding the one before
+ * The config file comes from --config or CONFIG_FILE. Also returns the command flags given
+ * (--print-config, --print-schema, --list-devices).
+ */
+function loadSettings(args: string[], env: NodeJS.ProcessEnv = process.env): { settings: Settings; commands: Set<string> } {
+  const commandLine = readArgs(args);
+  const configFile = commandLine.configFile ?? (env[CONFIG_ENV] || undefined);
+
+  const entries = new Map<string, Entry>([
+    ...(configFile ? readConfigFile(configFile) : new Map<string, Entry>()),
+    ...readEnv(env),
+    ...commandLine.entries,
+  ]);
+
+  const all = assemble(entries);
+  const settings: Settings = {
+    stream: {},
+    controlPort: all.controlPort,
+    controlToken: all.controlToken,
+    maxStreams: all.maxStreams,
+    schedule: all.schedule,
+    logLevel: all.logLevel,
+    logFormat: all.logFormat,
+    configFile,
+  };
+  for (const spec of OPTIONS.filter((option) => option.process)) {
+    delete all[spec.key];
+  }
+  settings.stream = finishStream(all, configFile ? path.basename(configFile) : '');
+  if (isStreamComplete(settings.stream)) {
+    checkComplete(settings.stream);
+    const { rtmpsUrl } = settings.stream;
+    const destinations = Array.isArray(rtmpsUrl) ? rtmpsUrl.length : rtmpsUrl ? 1 : 0;
+    // The slate is never recorded, so a record-only stream would have nowhere to send it
+    if (settings.schedule?.offline === 'slate' && destinations === 0) {
+      throw new ConfigError('schedule offline "slate" needs rtmpsUrl: the slate is streamed to the destinations, not recorded');
+    }
+  }
+  return { settings, commands: commandLine.commands };
+}
+
+/**
+ * The settings as --print-config shows them: credentials masked
+ */
+function describeSettings(settings: Settings): Record<string, unknown> {
+  const { stream, controlToken, ...rest } = settings;
+  const rtmpsUrl = stream.rtmpsUrl;
+  return {
+    ...Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)),
+    ...(controlToken ? { controlToken: '****' } : {}),
+    stream: {
+      ...stream,
+      ...(stream.url ? { url: redactUrl(stream.url) } : {}),
+      ...(rtmpsUrl !== undefined ? { rtmpsUrl: Array.isArray(rtmpsUrl) ? rtmpsUrl.map(redactUrl) : redactUrl(rtmpsUrl) } : {}),
+    },
+  };
+}
+
+function propertySchema(spec: OptionSpec): Record<string, unknown> {
+  const names = [spec.flag, spec.env].filter((name) => name);
+  const property: Record<string, unknown> = {
+    description: `${spec.description}${names.length > 0 ? ` [${names.join(', ')}]` : ''}`,
+  };
+  if (spec.schema) {
+    Object.assign(property, spec.schema);
+  } else {
+    property.type = spec.type;
+    if (spec.type === 'string') {
+      property.minLength = 1;
+    }
+    if (spec.values) {
+      property.enum = spec.values;
+    }
+    if (spec.pattern) {
+      property.pattern = spec.pattern.source;
+    }
+    if (spec.minimum !== undefined) {
+      property[spec.exclusiveMinimum ? 'exclusiveMinimum' : 'minimum'] = spec.minimum;
+    }
+    if (spec.maximum !== undefined) {
+      property.maximum = spec.maximum;
+    }
+    if (spec.even) {
+      property.multipleOf = 2;
+    }
+  }
+  if (spec.default !== undefined) {
+    property.default = spec.default;
+  }
+  return property;
+}
+
+/**
+ * JSON Schema (draft-07) of the config file, generated from the same table the loader checks against
+ */
+function configSchema(): Record<string, unknown> {
+  const properties: Record<string, any> = { $schema: { type: 'string' } };
+  for (const spec of OPTIONS) {
+    const [group, field] = spec.key.split('.');
+    if (field) {
+      properties[group] = properties[group] ?? { type: 'object', properties: {}, additionalProperties: false };
+      properties[group].properties[field] = propertySchema(spec);
+    } else {
+      properties[spec.key] = propertySchema(spec);
+    }
+  }
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'web-streamer configuration',
+    description: 'Settings for one stream plus the process (control API, logging, schedule). Command line flags override environment variables, which override this file.',
+    type: 'object',
+    properties,
+    additionalProperties: false,
+  };
+}
+
+export { Settings, ConfigError, loadSettings, validateStreamConfig, isStreamComplete, describeSettings, configSchema };
@@ -0,0 +1,381 @@
+import type { CaptureRegion } from './region';
+
+type VideoCodec = 'libx264' | 'libx265' | 'libsvtav1' | 'libvpx-vp9';
+type AudioCodec = 'aac' | 'opus' | 'mp3';
+// How the capture is fitted into a stream of another size:
+// stretch ignores the aspect ratio, letterbox pads with bars, crop fills and cuts off the overflow
+type ScaleMode = 'stretch' | 'letterbox' | 'crop';
+
+const VIDEO_CODECS: VideoCodec[] = ['libx264', 'libx265', 'libsvtav1', 'libvpx-vp9'];
+const AUDIO_CODECS: AudioCodec[] = ['aac', 'opus', 'mp3'];
+const SCALE_MODES: ScaleMode[] = ['stretch', 'letterbox', 'crop'];
+
+interface EncoderSettings {
+  videoCodec: VideoCodec;
+  audioCodec: AudioCodec;
+  // x264-style preset name; translated for SVT-AV1 and VP9
+  preset: string;
+  tune: string;
+  crf: number;
+  maxrate: string;
+  bufsize: string;
+  threads: number;
+  audioBitrate: string;
+  audioSampleRate: number;
+}
+
+interface EncoderProfile {
+  description: string;
+  settings: EncoderSettings;
+  // Optional output geometry and frame rate; explicit config values win
+  fps?: number;
+  width?: number;
+  height?: number;
+}
+
+const ENCODER_PROFILES: Record<string, EncoderProfile> = {
+  standard: {
+    description: 'Default balanced settings (veryfast, CRF 23, 4 Mbps)',
+    settings: {
+      videoCodec: 'libx264',
+      audioCodec: 'aac',
+      preset: 'veryfast',
+      tune: 'zerolatency',
+      crf: 23,
+      maxrate: '4000k',
+      bufsize: '8000k',
+      threads: 0,
+      audioBitrate: '128k',
+      audioSampleRate: 44100,
+    },
+  },
+  lightweight: {
+    description: 'Minimal CPU for 1fps streams (ultrafast, CRF 28, 1.5 Mbps)',
+    fps: 1,
+    settings: {
+      videoCodec: 'libx264',
+      audioCodec: 'aac',
+      preset: 'ultrafast',
+      tune: 'zerolatency',
+      crf: 28,
+      maxrate: '1500k',
+      bufsize: '3000k',
+      threads: 2,
+      audioBitrate: '64k',
+      audioSampleRate: 22050,
+    },
+  },
+  'low-bandwidth': {
+    description: '480p at 24fps under 1 Mbps for poor uplinks',
+    fps: 24,
+    width: 854,
+    height: 480,
+    settings: {
+      videoCodec: 'libx264',
+      audioCodec: 'aac',
+      preset: 'veryfast',
+      tune: 'zerolatency',
+      crf: 28,
+      maxrate: '800k',
+      bufsize: '1600k',
+      threads: 0,
+      audioBitrate: '64k',
+      audioSampleRate: 44100,
+    },
+  },
+  '720p30': {
+    description: '1280x720 at 30fps, 2.5 Mbps',
+    fps: 30,
+    width: 1280,
+    height: 720,
+    settings: {
+      videoCodec: 'libx264',
+      audioCodec: 'aac',
+      preset: 'veryfast',
+      tune: 'zerolatency',
+      crf: 23,
+      maxrate: '2500k',
+      bufsize: '5000k',
+      threads: 0,
+      audioBitrate: '128k',
+      audioSampleRate: 44100,
+    },
+  },
+  '1080p60-high': {
+    description: '1920x1080 at 60fps, 6 Mbps (needs 6+ vCPUs)',
+    fps: 60,
+    width: 1920,
+    height: 1080,
+    settings: {
+      videoCodec: 'libx264',
+      audioCodec: 'aac',
+      preset: 'faster',
+      tune: 'zerolatency',
+      crf: 20,
+      maxrate: '6000k',
+      bufsize: '12000k',
+      threads: 0,
+      audioBitrate: '160k',
+      audioSampleRate: 48000,
+    },
+  },
+  'static-dashboard': {
+    description: 'Mostly static pages at 5fps, tuned for still content',
+    fps: 5,
+    settings: {
+      videoCodec: 'libx264',
+      audioCodec: 'aac',
+      preset: 'veryfast',
+      tune: 'stillimage',
+      crf: 26,
+      maxrate: '1000k',
+      bufsize: '2000k',
+      threads: 2,
+      audioBitrate: '96k',
+      audioSampleRate: 44100,
+    },
+  },
+};
+
+interface ResolvedEncoder {
+  profile: string;
+  settings: EncoderSettings;
+  fps?: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Pick a named profile (or `lightweight`/`standard` from the legacy flag) and apply per-field overrides
+ */
+function resolveEncoder(
+  profileName: string | undefined,
+  lightweight: boolean,
+  overrides: Partial<EncoderSettings> = {}
+): ResolvedEncoder {
+  const name = profileName || (lightweight ? 'lightweight' : 'standard');
+  const profile = ENCODER_PROFILES[name];
+  if (!profile) {
+    throw new Error(`Unknown encoder profile "${name}". Available profiles: ${Object.keys(ENCODER_PROFILES).join(', ')}`);
+  }
+
+  const settings = { ...profile.settings };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      (settings as any)[key] = value;
+    }
+  }
+
+  if (!VIDEO_CODECS.includes(settings.videoCodec)) {
+    throw new Error(`Unsupported video codec "${settings.videoCodec}". Supported: ${VIDEO_CODECS.join(', ')}`);
+  }
+  if (!AUDIO_CODECS.includes(settings.audioCodec)) {
+    throw new Error(`Unsupported audio codec "${settings.audioCodec}". Supported: ${AUDIO_CODECS.join(', ')}`);
+  }
+  // libopus only accepts 48/24/16/12/8 kHz
+  if (settings.audioCodec === 'opus' && ![48000, 24000, 16000, 12000, 8000].includes(settings.audioSampleRate)) {
+    settings.audioSampleRate = 48000;
+  }
+
+  return { profile: name, settings, fps: profile.fps, width: profile.width, height: profile.height };
+}
+
+interface FFmpegArgsOptions {
+  // Capture inputs (video first, then audio), plus any extra inputs and filter graph
+  inputArgs: string[];
+  // Stream selection for this output; FFmpeg picks the streams itself when empty
+  mapArgs?: string[];
+  // Video filters applied after scaling (e.g. overlays)
+  videoFilters?: string[];
+  settings: EncoderSettings;
+  fps: number;
+  captureWidth: number;
+  captureHeight: number;
+  streamWidth: number;
+  streamHeight: number;
+  scaleMode?: ScaleMode;
+  // Color of the letterbox bars (default black)
+  padColor?: string;
+  // Part of the capture to stream, in device pixels (default: all of it)
+  crop?: CaptureRegion;
+  outputArgs: string[];
+}
+
+// x264 preset names -> SVT-AV1 presets (0 = slowest, 13 = fastest)
+const SVT_AV1_PRESETS: Record<string, number> = {
+  ultrafast: 12, superfast: 11, veryfast: 10, faster: 9, fast: 8, medium: 7, slow: 5, slower: 4, veryslow: 2,
+};
+
+// x264 preset names -> libvpx-vp9 -cpu-used (realtime deadline: 5 = slowest useful, 8 = fastest)
+const VP9_CPU_USED: Record<string, number> = {
+  ultrafast: 8, superfast: 8, veryfast: 7, faster: 7, fast: 6, medium: 6, slow: 5, slower: 5, veryslow: 5,
+};
+
+// x265 has no stillimage tune
+const X265_TUNES = ['psnr', 'ssim', 'grain', 'zerolatency', 'fastdecode', 'animation'];
+
+/**
+ * Codec-specific rate control and speed options
+ * CRF is given on the x264 scale and shifted for codecs whose quality scale differs.
+ */
+function videoCodecArgs(settings: EncoderSettings): string[] {
+  const { videoCodec, preset, tune, crf, maxrate, bufsize } = settings;
+  const rateControl = ['-maxrate', maxrate, '-bufsize', bufsize];
+
+  switch (videoCodec) {
+    case 'libx264':
+      return ['-c:v', 'libx264', '-preset', preset, '-tune', tune, '-crf', crf.toString(), ...rateControl];
+    case 'libx265':
+      return [
+        '-c:v', 'libx265',
+        '-preset', preset,
+        ...(X265_TUNES.includes(tune) ? ['-tune', tune] : []),
+        '-crf', (crf + 5).toString(),
+        ...rateControl,
+        '-tag:v', 'hvc1',
+      ];
+    case 'libsvtav1':
+      return [
+        '-c:v', 'libsvtav1',
+        '-preset', (SVT_AV1_PRESETS[preset] ?? 10).toString(),
+        '-crf', Math.min(63, crf + 12).toString(),
+        ...rateControl,
+      ];
+    case 'libvpx-vp9':
+      return [
+        '-c:v', 'libvpx-vp9',
+        '-deadline', 'realtime',
+        '-cpu-used', (VP9_CPU_USED[preset] ?? 7).toString(),
+        '-row-mt', '1',
+        // Constrained quality: CRF with maxrate as the bitrate ceiling
+        '-crf', Math.min(63, crf + 10).toString(),
+        '-b:v', maxrate,
+        ...rateControl,
+      ];
+  }
+}
+
+function audioCodecArgs(settings: EncoderSettings): string[] {
+  const codec = settings.audioCodec === 'opus' ? 'libopus' : settings.audioCodec === 'mp3' ? 'libmp3lame' : 'aac';
+  return ['-c:a', codec, '-b:a', settings.audioBitrate, '-ar', settings.audioSampleRate.toString(), '-ac', '2'];
+}
+
+/**
+ * Check a scale mode and letterbox color before they end up in a filter graph
+ */
+function checkScaling(scaleMode: string | undefined, padColor: string | undefined): void {
+  if (scaleMode !== undefined && !SCALE_MODES.includes(scaleMode as ScaleMode)) {
+    throw new Error(`Unknown scale mode "${scaleMode}". Supported: ${SCALE_MODES.join(', ')}`);
+  }
+  // Names (black), #rrggbb or 0xrrggbb, optionally @alpha - nothing that could break out of the filter
+  if (padColor !== undefined && !/^#?[\w.@]+$/.test(padColor)) {
+    throw new Error(`Invalid pad color "${padColor}"`);
+  }
+}
+
+/**
+ * Scale video if stream resolution is different from capture resolution
+ * Letterbox and crop keep the aspect ratio; their intermediate size is kept even for yuv420p.
+ */
+function scaleFilters(
+  captureWidth: number,
+  captureHeight: number,
+  streamWidth: number,
+  streamHeight: number,
+  scaleMode: ScaleMode = 'stretch',
+  padColor: string = 'black'
+): string[] {
+  if (streamWidth === captureWidth && streamHeight === captureHeight) {
+    return [];
+  }
+  const size = `${streamWidth}:${streamHeight}`;
+  switch (scaleMode) {
+    case 'stretch':
+      return [`scale=${size}`, 'setsar=1'];
+    case 'letterbox':
+      return [
+        `scale=${size}:force_original_aspect_ratio=decrease:force_divisible_by=2`,
+        `pad=${size}:(ow-iw)/2:(oh-ih)/2:color=${padColor}`,
+        'setsar=1',
+      ];
+    case 'crop':
+      return [`scale=${size}:force_original_aspect_ratio=increase:force_divisible_by=2`, `crop=${size}`, 'setsar=1'];
+  }
+}
+
+/**
+ * Crop the capture to the streamed region, then fit that into the stream size
+ */
+function frameFilters(
+  captureWidth: number,
+  captureHeight: number,
+  streamWidth: number,
+  streamHeight: number,
+  options: { scaleMode?: ScaleMode; padColor?: string; crop?: CaptureRegion } = {}
+): string[] {
+  const { scaleMode, padColor, crop } = options;
+  if (!crop) {
+    return scaleFilters(captureWidth, captureHeight, streamWidth, streamHeight, scaleMode, padColor);
+  }
+  return [
+    `crop=${crop.width}:${crop.height}:${crop.x}:${crop.y}`,
+    ...scaleFilters(crop.width, crop.height, streamWidth, streamHeight, scaleMode, padColor),
+  ];
+}
+
+/**
+ * Build the full FFmpeg command line: capture inputs, video/audio encode and outputs
+ * Every FFmpeg run (normal capture and silent-audio fallback) goes through here.
+ */
+function buildFFmpegArgs(options: FFmpegArgsOptions): string[] {
+  const {
+    inputArgs,
+    mapArgs = [],
+    videoFilters = [],
+    settings,
+    fps,
+    captureWidth,
+    captureHeight,
+    streamWidth,
+    streamHeight,
+    scaleMode,
+    padColor,
+    crop,
+    outputArgs,
+  } = options;
+
+  // GOP of 2 seconds, but at least one frame for very low frame rates
+  const gopSize = fps <= 1 ? Math.max(1, Math.round(fps)) : 2 * fps;
+
+  const filters = [...frameFilters(captureWidth, captureHeight, streamWidth, streamHeight, { scaleMode, padColor, crop }), ...videoFilters];
+
+  return [
+    ...inputArgs,
+    ...mapArgs,
+    ...(filters.length > 0 ? ['-vf', filters.join(',')] : []),
+    ...videoCodecArgs(settings),
+    '-pix_fmt', 'yuv420p',
+    '-g', gopSize.toString(),
+    '-threads', settings.threads.toString(),
+    ...audioCodecArgs(settings),
+    ...outputArgs,
+  ];
+}
+
+export {
+  EncoderSettings,
+  EncoderProfile,
+  ENCODER_PROFILES,
+  ResolvedEncoder,
+  VideoCodec,
+  AudioCodec,
+  ScaleMode,
+  VIDEO_CODECS,
+  AUDIO_CODECS,
+  SCALE_MODES,
+  resolveEncoder,
+  checkScaling,
+  scaleFilters,
+  frameFilters,
+  buildFFmpegArgs,
+};
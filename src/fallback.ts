@@ -0,0 +1,231 @@
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { Page } from 'puppeteer';
+import { Logger, createLogger } from './logger';
+
+interface FallbackOptions {
+  // Local image, HTML file or video shown while the page is down (default: a text slate)
+  path?: string;
+  // Text of the default slate
+  text?: string;
+  // Background behind the image, video or text
+  background?: string;
+  // Seconds between checks whether the page is back (default 15)
+  checkInterval?: number;
+}
+
+interface FallbackHooks {
+  // The page on screen (null while the browser is being relaunched)
+  getPage: () => Page | null;
+  // URL to check and go back to
+  getUrl: () => string;
+  // Load the page again and bring it back to its initial state; throws if it is still broken
+  restore: (page: Page) => Promise<void>;
+  // Where the controller logs (default: a plain `fallback` logger)
+  logger?: Logger;
+}
+
+class FallbackError extends Error {}
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'];
+const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.ogv', '.mov', '.m4v'];
+const HTML_EXTENSIONS = ['.html', '.htm'];
+
+const PROBE_TIMEOUT = 10000;
+
+/**
+ * Check fallback options and return them typed
+ */
+function validateFallback(input: unknown): FallbackOptions {
+  const fallback = input as any;
+  if (!fallback || typeof fallback !== 'object' || Array.isArray(fallback)) {
+    throw new FallbackError('Fallback must be an object');
+  }
+  if (fallback.path !== undefined) {
+    if (typeof fallback.path !== 'string' || !fallback.path) {
+      throw new FallbackError('Fallback "path" must be a file path');
+    }
+    const ext = path.extname(fallback.path).toLowerCase();
+    if (![...IMAGE_EXTENSIONS, ...VIDEO_EXTENSIONS, ...HTML_EXTENSIONS].includes(ext)) {
+      throw new FallbackError(`Fallback "path" must be an image, video or HTML file, not "${ext || fallback.path}"`);
+    }
+    if (!existsSync(fallback.path)) {
+      throw new FallbackError(`Fallback ${fallback.path} not found`);
+    }
+  }
+  for (const field of ['text', 'background']) {
+    if (fallback[field] !== undefined && typeof fallback[field] !== 'string') {
+      throw new FallbackError(`Fallback "${field}" must be a string`);
+    }
+  }
+  if (fallback.checkInterval !== undefined && (typeof fallback.checkInterval !== 'number' || fallback.checkInterval <= 0)) {
+    throw new FallbackError('Fallback "checkInterval" must be a number of seconds > 0');
+  }
+  return fallback as FallbackOptions;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Why a page can't be shown, or null if it is fine
+ * Only a failed request or a 5xx counts; 4xx pages are the site's own business.
+ */
+async function probeUrl(url: string): Promise<string | null> {
+  if (!/^https?:\/\//i.test(url)) {
+    return null;
+  }
+  try {
+    const response = await fetch(url, { redirect: 'follow', signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+    await response.body?.cancel().catch(() => {});
+    return response.status >= 500 ? `HTTP ${response.status}` : null;
+  } catch (error: any) {
+    // fetch itself only says "fetch failed"; the cause names the actual problem
+    return error?.cause?.message ?? error?.message ?? String(error);
+  }
+}
+
+/**
+ * Shows fallback content in the browser while the page is down, and goes back once it is up
+ * The fallback is a local page, so FFmpeg keeps capturing without interruption. While it is
+ * shown, the page's URL is checked every `checkInterval` seconds over HTTP before the browser
+ * is sent back to it, so viewers don't see the browser's own error screen in between.
+ *
+ * Events: start ({ reason }), end ({ duration }), restore-failed ({ message })
+ */
+class FallbackController extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private reason: string | null = null;
+  private since: number | null = null;
+  private checking = false;
+  private stopped = false;
+  private log: Logger;
+
+  constructor(private options: FallbackOptions, private directory: string, private hooks: FallbackHooks) {
+    super();
+    this.log = hooks.logger ?? createLogger('fallback');
+  }
+
+  get active(): boolean {
+    return this.since !== null;
+  }
+
+  get status() {
+    return {
+      active: this.active,
+      reason: this.reason,
+      since: this.since ? new Date(this.since).toISOString() : null,
+    };
+  }
+
+  /**
+   * Put the fallback on screen (again) and keep checking for the page to come back
+   */
+  async show(page: Page, reason: string): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    const starting = !this.active;
+    if (starting) {
+      this.log.warn(`Page unavailable (${reason}), showing fallback`);
+      this.reason = reason;
+      this.since = Date.now();
+    }
+    await page.goto(this.pageUrl(), { waitUntil: 'load', timeout: 10000 }).catch((error) => {
+      this.log.error(`Could not show the fallback: ${error instanceof Error ? error.message : error}`);
+    });
+    if (starting) {
+      this.emit('start', { reason });
+    }
+    this.schedule();
+  }
+
+  /**
+   * Record that the page is back, also when it came back by other means (e.g. a browser relaunch)
+   */
+  restored(): void {
+    if (!this.active) {
+      return;
+    }
+    const duration = Math.round((Date.now() - this.since!) / 1000);
+    this.log.info(`Page is back after ${duration}s, fallback removed`);
+    this.since = null;
+    this.reason = null;
+    this.emit('end', { duration });
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    if (this.stopped || this.timer || this.checking) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.check().catch((error) => this.log.error('Fallback check failed', { error }));
+    }, (this.options.checkInterval ?? 15) * 1000);
+  }
+
+  private async check(): Promise<void> {
+    if (!this.active || this.stopped) {
+      return;
+    }
+    const page = this.hooks.getPage();
+    const reason = page ? await probeUrl(this.hooks.getUrl()) : 'browser is restarting';
+    if (!page || reason) {
+      this.reason = reason;
+      this.schedule();
+      return;
+    }
+
+    this.checking = true;
+    try {
+      await this.hooks.restore(page);
+      this.restored();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log.warn(`Page still unavailable (${message}), back to the fallback`);
+      this.emit('restore-failed', { message });
+      this.checking = false;
+      await this.show(page, message);
+    }
+    this.checking = false;
+  }
+
+  // A local file the browser can open: the user's HTML file as is, or a generated page around the image/video/text
+  private pageUrl(): string {
+    const file = this.options.path ? path.resolve(this.options.path) : null;
+    const ext = file ? path.extname(file).toLowerCase() : '';
+    if (file && HTML_EXTENSIONS.includes(ext)) {
+      return pathToFileURL(file).href;
+    }
+
+    const background = escapeHtml(this.options.background ?? '#000');
+    const fill = 'width:100vw;height:100vh;object-fit:contain';
+    let content: string;
+    if (file && VIDEO_EXTENSIONS.includes(ext)) {
+      content = `<video src="${escapeHtml(pathToFileURL(file).href)}" style="${fill}" autoplay loop playsinline></video>`;
+    } else if (file) {
+      content = `<img src="${escapeHtml(pathToFileURL(file).href)}" style="${fill}">`;
+    } else {
+      content = `<div style="font:bold 64px sans-serif;color:#fff">${escapeHtml(this.options.text ?? 'We\'ll be right back')}</div>`;
+    }
+
+    mkdirSync(this.directory, { recursive: true });
+    const page = path.join(this.directory, 'fallback.html');
+    writeFileSync(page, '<!DOCTYPE html><html><body style="margin:0;height:100vh;display:flex;align-items:center;'
+      + `justify-content:center;overflow:hidden;background:${background}">${content}</body></html>`);
+    return pathToFileURL(page).href;
+  }
+}
+
+export { FallbackOptions, FallbackError, FallbackController, validateFallback, probeUrl };
@@ -1,83 +1,311 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, { Browser, Page, LaunchOptions } from 'puppeteer';
 import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { mkdirSync, rmSync } from 'fs';
+import path from 'path';
+import { setTimeout as delay } from 'timers/promises';
+import { FFmpegSupervisor, SupervisorOptions } from './supervisor';
+import { BrowserWatchdog } from './watchdog';
+import { EncoderSettings, ResolvedEncoder, ScaleMode, resolveEncoder, checkScaling, frameFilters, buildFFmpegArgs } from './encoder';
+import { OutputTarget, resolveOutput, relayArgs } from './outputs';
+import { Recorder, RecordingOptions } from './recorder';
+import { buildPreviewArgs } from './preview';
+import { ActionStep, runActions } from './actions';
+import { unlockAudio, isPageAudible } from './autoplay';
+import { AudioMeter } from './audio-meter';
+import { AudioSource, prepareAudioSources, buildAudioMix } from './audio-mix';
+import { Overlay, OverlayController, OverlayError } from './overlays';
+import { PlaylistOptions, PlaylistPage, PageRotator } from './playlist';
+import { StreamScheduler, offlineSlateUrl } from './scheduler';
+import { FallbackOptions, FallbackController, probeUrl } from './fallback';
+import { CaptureRegion, RegionTracker, cropRect } from './region';
+import { CaptureBackend, CAPTURE_BACKENDS, ScreencastCapture, screencastInputArgs } from './screencast';
+import { AudioBackend, AUDIO_BACKENDS, AUDIO_PIPE_FD, BrowserAudioCapture, browserAudioInputArgs } from './browser-audio';
+import { Logger, createLogger, configureLogging } from './logger';
+import { PulseAudioManager, PulseSinkInput } from './pulseaudio';
+import { ControlServer } from './server';
+import { ConfigError, loadSettings, isStreamComplete, describeSettings, configSchema } from './config';
+import { StreamManager } from './stream-manager';
 
 interface StreamConfig {
   url: string;
-  rtmpsUrl: string;
+  // One output URL, or several to simulcast the same encode. The muxer is picked from the
+  // scheme: rtmp(s):// -> FLV, srt:// and udp:// -> MPEG-TS, local *.m3u8 path -> HLS.
+  // May be omitted when recording only.
+  rtmpsUrl?: string | string[];
   width?: number;
   height?: number;
   fps?: number;
   audioDevice?: string;
   videoDevice?: string;
   useVirtualDisplay?: boolean;
+  // screen (default): grab the display the browser is on; screencast: headless browser, frames over DevTools
+  captureBackend?: CaptureBackend;
+  // pulse (default): the page plays into our own PulseAudio sink; browser: WebAudio capture inside the page
+  audioBackend?: AudioBackend;
   lightweight?: boolean;
-  clickSelector?: string;
-  clickX?: number;
-  clickY?: number;
-  clickDelay?: number;
+  // Page interaction run after load (and again after a browser relaunch): log in, dismiss banners, press play
+  actions?: ActionStep[];
+  // Autoplay strategies tried after the actions until audio flows (default: all built-ins), or false to skip
+  autoplay?: string[] | false;
   streamWidth?: number;
   streamHeight?: number;
+  // How the capture fits a stream size with another aspect ratio: stretch (default), letterbox or crop
+  scaleMode?: ScaleMode;
+  // Color of the letterbox bars (default black)
+  padColor?: string;
+  // Render the page at this device pixel ratio for HiDPI pages; width/height stay the page's
+  // CSS size and the capture is that size times the ratio (default 1)
+  deviceScaleFactor?: number;
+  // Stream only this element of the page; the capture follows it when the layout shifts
+  captureSelector?: string;
+  // Stream only this rectangle of the page (CSS pixels), when there is no captureSelector
+  captureRegion?: CaptureRegion;
+  // Seconds between looks at where captureSelector is (default 5, 0 = only at start)
+  captureTrackInterval?: number;
+  maxRestarts?: number;
+  restartDelay?: number;
+  maxRestartDelay?: number;
+  watchdog?: boolean;
+  watchdogInterval?: number;
+  // Wait up to this long (ms) for real sound on the sink before starting FFmpeg (default 30000, 0 = don't wait)
+  audioGateTimeout?: number;
+  // Level (dBFS) below which the sink counts as silent (default -50)
+  silenceThreshold?: number;
+  // Raise an `audio:silence` event after this many seconds of silence mid-stream (default 30, 0 = never)
+  silenceAlertAfter?: number;
+  // Extra audio mixed under the page: music beds, jingles, playlists
+  audioSources?: AudioSource[];
+  // Gain applied to the page's own audio in the mix (default 1)
+  pageVolume?: number;
+  // Watermark, clock, ticker, badge and text overlays drawn on top of the capture
+  overlays?: Overlay[];
+  // Rotate through several pages in the same browser; replaces `url` and `actions` with its pages'
+  playlist?: PlaylistOptions;
+  // Image, HTML file, video or text shown while the page fails to load or returns a 5xx
+  fallback?: FallbackOptions;
+  // Named encoder profile (standard, lightweight, low-bandwidth, 720p30, 1080p60-high, static-dashboard)
+  encoderProfile?: string;
+  // Per-field overrides applied on top of the profile
+  encoder?: Partial<EncoderSettings>;
+  // Record the encode to rotating files on disk (alongside the outputs, or on its own)
+  record?: RecordingOptions;
+  // Also write a low-bitrate HLS preview, served by the control API at /streams/:id/preview
+  preview?: boolean;
 }
 
-class WebStreamer {
+// Everything needed to (re)launch the browser and bring the page back to its initial state
+interface BrowserSession {
+  url: string;
+  launchOptions: LaunchOptions;
+  width: number;
+  height: number;
+  // Device pixels per CSS pixel; the window on the display is width x height times this
+  deviceScaleFactor: number;
+  lightweight: boolean;
+  actions: ActionStep[];
+  autoplay?: string[] | false;
+  // The window is on our own Xvfb display and is moved into place there
+  positionWindow: boolean;
+  // The page's sound plays into this stream's own PulseAudio sink
+  ownSink: boolean;
+}
+
+interface WebStreamerOptions {
+  displayNumber?: number;
+  sinkName?: string;
+  profileDir?: string;
+  previewDir?: string;
+}
+
+// Every sink created by a WebStreamer starts with this name, so audio already
+// routed to another stream is never moved into ours.
+const DEFAULT_SINK_NAME = 'stream_sink';
+
+const SUPERVISOR_EVENTS = ['start', 'exit', 'restart', 'stable', 'giveup', 'audio-fallback', 'audio-restored', 'error'];
+const WATCHDOG_EVENTS = ['unhealthy', 'recovered', 'recovery-failed', 'pageerror'];
+
+class WebStreamer extends EventEmitter {
   private browser: Browser | null = null;
   private page: Page | null = null;
-  private ffmpegProcess: ChildProcess | null = null;
+  private supervisor: FFmpegSupervisor | null = null;
+  private relays: FFmpegSupervisor[] = [];
+  private recorder: Recorder | null = null;
+  private watchdog: BrowserWatchdog | null = null;
+  private rotator: PageRotator | null = null;
+  private session: BrowserSession | null = null;
+  private browserRestarts: number = 0;
   private xvfbProcess: ChildProcess | null = null;
   private wmProcess: ChildProcess | null = null;
-  private pulseAudioProcess: ChildProcess | null = null;
-  private parecProcess: ChildProcess | null = null;
-  private displayNumber: number = 99;
+  private pulse: PulseAudioManager;
+  // Last answer of checkSinkMonitor()
+  private sinkMonitorAvailable = false;
+  private audioMeter: AudioMeter | null = null;
+  // ALSA/loopback routing still being set up (see setupAudioRouting)
+  private audioRouting: { abort: AbortController; done: Promise<void> } | null = null;
+  private displayNumber: number;
+  private sinkName: string;
+  private profileDir?: string;
+  private previewDir: string;
+  private previewActive = false;
+  private audioDir: string;
+  private overlayDir: string;
+  private overlayController: OverlayController | null = null;
+  private fallbackDir: string;
+  private fallback: FallbackController | null = null;
+  private regionTracker: RegionTracker | null = null;
+  private screencast: ScreencastCapture | null = null;
+  private browserAudio: BrowserAudioCapture | null = null;
+  // Part of the capture that is streamed (device pixels), or null for all of it
+  private captureCrop: CaptureRegion | null = null;
+  private log: Logger;
+  private browserLog: Logger;
+  private pulseLog: Logger;
+  private xvfbLog: Logger;
+  private ffmpegLog: Logger;
+  private audioLog: Logger;
+
+  constructor(options: WebStreamerOptions = {}) {
+    super();
+    this.displayNumber = options.displayNumber ?? 99;
+    // Every line of this stream carries its display number
+    this.log = createLogger('stream', { display: this.displayNumber });
+    this.browserLog = this.log.child('browser');
+    this.pulseLog = this.log.child('pulse');
+    this.xvfbLog = this.log.child('xvfb');
+    this.ffmpegLog = this.log.child('ffmpeg');
+    this.audioLog = this.log.child('audio');
+    this.sinkName = options.sinkName ?? DEFAULT_SINK_NAME;
+    this.profileDir = options.profileDir;
+    this.previewDir = options.previewDir ?? path.join('/tmp/web-streamer/preview', `display-${this.displayNumber}`);
+    this.audioDir = path.join('/tmp/web-streamer/audio', `display-${this.displayNumber}`);
+    this.overlayDir = path.join('/tmp/web-streamer/overlays', `display-${this.displayNumber}`);
+    this.fallbackDir = path.join('/tmp/web-streamer/fallback', `display-${this.displayNumber}`);
+    this.pulse = new PulseAudioManager(this.getPulseEnv(), this.pulseLog);
+  }
 
   /**
    * Start streaming a webpage to RTMPS
    */
   async startStream(config: StreamConfig): Promise<void> {
     const {
-      url,
+      url: configUrl,
       rtmpsUrl,
       width = 1920,
       height = 1080,
-      fps = 30,
+      fps,
       audioDevice,
       videoDevice,
       useVirtualDisplay: configUseVirtualDisplay = false,
+      captureBackend = 'screen',
+      audioBackend = 'pulse',
       lightweight = process.env.LIGHTWEIGHT === 'true',
-      clickSelector,
-      clickX,
-      clickY,
-      clickDelay = 1000,
+      actions: configActions = [],
+      autoplay,
       streamWidth,
       streamHeight,
+      scaleMode = 'stretch',
+      padColor,
+      deviceScaleFactor = 1,
+      captureSelector,
+      captureRegion,
+      captureTrackInterval,
+      maxRestarts,
+      restartDelay,
+      maxRestartDelay,
+      watchdog: enableWatchdog = true,
+      watchdogInterval,
+      audioGateTimeout = 30000,
+      silenceThreshold,
+      silenceAlertAfter,
+      audioSources = [],
+      pageVolume,
+      overlays = [],
+      playlist,
+      fallback,
+      encoderProfile,
+      encoder: encoderOverrides,
+      record,
+      preview = false,
     } = config;
 
-    // Apply lightweight defaults if enabled
-    // Lightweight mode keeps custom resolution but defaults to 1fps for minimal CPU usage
+    // A playlist starts on its first page
+    const url = playlist ? playlist.pages[0].url : configUrl;
+    const actions = playlist ? playlist.pages[0].actions ?? [] : configActions;
+
+    // Resolve the encoder profile (lightweight mode maps to the "lightweight" profile)
+    // Explicit fps/stream size win over the profile's defaults
+    const encoder = resolveEncoder(encoderProfile, lightweight, encoderOverrides);
     const finalWidth = width;
     const finalHeight = height;
-    const finalFps = lightweight ? (fps === 30 ? 1 : fps) : fps;
+    const finalFps = fps ?? encoder.fps ?? 30;
     
     // Stream resolution (can be different from browser resolution)
-    // If not specified, use browser resolution
-    const streamWidthFinal = streamWidth !== undefined ? streamWidth : width;
-    const streamHeightFinal = streamHeight !== undefined ? streamHeight : height;
+    // If not specified, use the profile's resolution, then the browser resolution
+    let streamWidthFinal = streamWidth ?? encoder.width ?? width;
+    let streamHeightFinal = streamHeight ?? encoder.height ?? height;
+    checkScaling(scaleMode, padColor);
+    if (typeof deviceScaleFactor !== 'number' || deviceScaleFactor <= 0 || deviceScaleFactor > 4) {
+      throw new Error('deviceScaleFactor must be a number > 0 and <= 4');
+    }
+
+    // The display, window and capture are in device pixels; a HiDPI page is captured larger and scaled down
+    const captureWidth = Math.round(finalWidth * deviceScaleFactor);
+    const captureHeight = Math.round(finalHeight * deviceScaleFactor);
 
     // Determine if we need virtual display (always needed on Linux without DISPLAY)
     const useVirtualDisplay = configUseVirtualDisplay || 
                              (process.platform === 'linux' && !process.env.DISPLAY) ||
                              (process.platform === 'linux' && process.env.DISPLAY === ':99');
 
-    console.log(`Starting stream: ${url} -> ${rtmpsUrl}`);
-    console.log(`Platform: ${process.platform}, Virtual display: ${useVirtualDisplay}, Lightweight: ${lightweight}`);
-    if (lightweight) {
-      console.log(`Lightweight mode: ${finalWidth}x${finalHeight} @ ${finalFps}fps (optimized encoding)`);
+    if (!CAPTURE_BACKENDS.includes(captureBackend)) {
+      throw new Error(`Unknown capture backend "${captureBackend}". Supported: ${CAPTURE_BACKENDS.join(', ')}`);
+    }
+    if (!AUDIO_BACKENDS.includes(audioBackend)) {
+      throw new Error(`Unknown audio backend "${audioBackend}". Supported: ${AUDIO_BACKENDS.join(', ')}`);
+    }
+    // A screencast needs no display at all; the sink is still ours for the page's sound
+    // unless the browser captures it itself
+    const screencast = captureBackend === 'screencast';
+    const browserAudio = audioBackend === 'browser';
+    const virtualLinux = useVirtualDisplay && process.platform === 'linux';
+    const ownSink = virtualLinux && !browserAudio;
+    const ownDisplay = virtualLinux && !screencast;
+
+    const destinations = Array.isArray(rtmpsUrl) ? rtmpsUrl : rtmpsUrl ? [rtmpsUrl] : [];
+    if (destinations.length === 0 && !record) {
+      throw new Error('At least one output URL or a recording path is required');
+    }
+
+    this.log.info(`Starting stream: ${url} -> ${[...destinations, ...(record ? [`recording (${record.path})`] : [])].join(', ')}`);
+    this.log.info(`Platform: ${process.platform}, Virtual display: ${ownDisplay}, Capture: ${captureBackend}, Audio: ${audioBackend}, Lightweight: ${lightweight}`);
+    this.log.info(`Encoder profile: ${encoder.profile} (${streamWidthFinal}x${streamHeightFinal} @ ${finalFps}fps, preset ${encoder.settings.preset}, CRF ${encoder.settings.crf}, maxrate ${encoder.settings.maxrate})`);
+    this.log.info(`Codecs: ${encoder.settings.videoCodec} / ${encoder.settings.audioCodec}`);
+
+    // Validate outputs before launching anything
+    const targets = destinations.map((destination) => resolveOutput(destination, encoder.settings, this.ffmpegLog));
+    if ((targets.length > 1 || record) && encoder.settings.videoCodec === 'libvpx-vp9') {
+      throw new Error('VP9 cannot be simulcast or recorded: the shared encode is passed on as MPEG-TS');
+    }
+
+    // Resolve extra audio inputs now, so a missing playlist fails before anything is launched
+    const audioMix = audioSources.length > 0 || (pageVolume !== undefined && pageVolume !== 1)
+      ? { sources: audioSources, inputs: prepareAudioSources(audioSources, this.audioDir), pageVolume }
+      : undefined;
+    if (audioSources.length > 0) {
+      this.log.info(`Mixing ${audioSources.length} extra audio source(s) with the page audio`);
     }
+    this.overlayController = new OverlayController(overlays, this.overlayDir);
 
     // Setup virtual display if needed (for Railway/headless environments)
-    if (useVirtualDisplay && process.platform === 'linux') {
-      await this.setupVirtualDisplay(finalWidth, finalHeight);
+    if (ownDisplay) {
+      await this.setupVirtualDisplay(captureWidth, captureHeight);
+    }
+    if (ownSink) {
       // Start PulseAudio for audio capture
       await this.startPulseAudio();
+    }
+    if (ownDisplay) {
       // Start a simple window manager to position the browser window
       await this.startWindowManager();
     }
@@ -92,7 +320,7 @@ class WebStreamer {
       '--disable-session-crashed-bubble', // Hide crash notifications
       // Note: Using --app mode would load URL automatically, but we'll navigate manually for better control
       // Set PulseAudio sink for browser audio (if using virtual display)
-      ...(useVirtualDisplay && process.platform === 'linux' 
+      ...(ownSink
         ? ['--use-fake-ui-for-media-stream', '--use-fake-device-for-media-stream']
         : []),
       '--no-sandbox',
@@ -146,56 +374,304 @@ class WebStreamer {
       );
     }
 
-    // Set DISPLAY environment variable for virtual display
-    if (useVirtualDisplay && process.platform === 'linux') {
-      process.env.DISPLAY = `:${this.displayNumber}`;
+    // Window size stays in CSS pixels; Chromium renders it at the forced ratio
+    if (deviceScaleFactor !== 1) {
+      browserArgs.push(`--force-device-scale-factor=${deviceScaleFactor}`);
+    }
+
+    // Point the browser at this stream's virtual display
+    // DISPLAY is only set in the browser's environment so other streams keep their own
+    if (ownDisplay) {
       browserArgs.push('--display=:' + this.displayNumber);
     }
 
     // When using virtual display, we need headless: false so browser renders to X display
     // FFmpeg will capture from the virtual display
-      // Configure PulseAudio environment for browser to use stream_sink
-      if (useVirtualDisplay && process.platform === 'linux') {
-        // Set PulseAudio environment variables so browser uses stream_sink
-        process.env.PULSE_RUNTIME_PATH = process.env.HOME ? `${process.env.HOME}/.config/pulse` : '/tmp/pulse';
-        process.env.PULSE_STATE_PATH = process.env.HOME ? `${process.env.HOME}/.config/pulse` : '/tmp/pulse';
-        // Force browser to use stream_sink
-        process.env.PULSE_SINK = 'stream_sink';
-        // Force browser to use PulseAudio instead of ALSA
-        process.env.PULSE_SERVER = 'unix:/tmp/pulse-socket';
-        // Disable ALSA fallback
-        delete process.env.ALSA_CARD;
-        delete process.env.ALSA_DEVICE;
-        
-        // Create pulse directory if it doesn't exist
-        const { execSync } = require('child_process');
-        try {
-          execSync('mkdir -p /tmp/pulse 2>/dev/null || true');
-        } catch (e) {
-          // Ignore errors
-        }
-      }
-
     // Use app mode to hide browser UI - launch with URL directly
     // Pass PulseAudio environment to browser process
     const browserEnv = { ...process.env };
-    if (useVirtualDisplay && process.platform === 'linux') {
+    if (ownDisplay) {
+      browserEnv.DISPLAY = `:${this.displayNumber}`;
+    }
+    if (ownSink) {
       const pulseEnv = this.getPulseEnv();
-      browserEnv.PULSE_SINK = 'stream_sink';
+      // Force browser to use this stream's sink
+      browserEnv.PULSE_SINK = this.sinkName;
       browserEnv.PULSE_RUNTIME_PATH = pulseEnv.PULSE_RUNTIME_PATH;
       browserEnv.PULSE_STATE_PATH = pulseEnv.PULSE_STATE_PATH;
+      // Disable ALSA fallback
+      delete browserEnv.ALSA_CARD;
+      delete browserEnv.ALSA_DEVICE;
     }
     
-    this.browser = await puppeteer.launch({
-      headless: false,
-      args: [...browserArgs, `--app=${url}`], // App mode hides browser UI
-      env: browserEnv, // Pass environment variables to browser
+    this.session = {
+      url,
+      launchOptions: {
+        // A screencast renders off-screen; the screen backend needs a real window to grab
+        headless: screencast,
+        // Puppeteer mutes headless browsers, but the page's sound is still streamed
+        ...(screencast && !browserAudio ? { ignoreDefaultArgs: ['--mute-audio'] } : {}),
+        args: [...browserArgs, `--app=${url}`], // App mode hides browser UI
+        env: browserEnv, // Pass environment variables to browser
+        userDataDir: this.profileDir, // Separate profile per stream (temporary profile if unset)
+      },
+      width: finalWidth,
+      height: finalHeight,
+      deviceScaleFactor,
+      lightweight,
+      actions,
+      autoplay,
+      positionWindow: ownDisplay,
+      ownSink,
+    };
+    if (fallback) {
+      this.fallback = new FallbackController(fallback, this.fallbackDir, {
+        getPage: () => this.page,
+        getUrl: () => this.session!.url,
+        restore: (page) => this.restorePage(page),
+        logger: this.log.child('fallback'),
+      });
+      for (const event of ['start', 'end', 'restore-failed']) {
+        this.fallback.on(event, (payload) => this.emit(`fallback:${event}`, payload));
+      }
+    }
+    if (browserAudio) {
+      // Attached to the page in openBrowser, before the page gets to make any sound
+      this.browserAudio = new BrowserAudioCapture({
+        write: (chunk) => this.supervisor?.write(chunk, AUDIO_PIPE_FD),
+        meter: (samples) => this.audioMeter?.feed(samples),
+        logger: this.audioLog,
+      });
+      this.browserAudio.start();
+    }
+    await this.openBrowser(this.session);
+
+    // After the actions, wait for audio to start and verify it's in this stream's sink
+    // The browser is launched with PULSE_SINK, so new audio should automatically go there
+    if (ownSink) {
+      this.pulseLog.info(`Waiting for audio to start and appear in ${this.sinkName}...`);
+      await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait longer for audio to start after click
+      
+      await this.waitForSinkInput();
+      
+      // Additional wait to ensure audio is playing
+      this.pulseLog.info('Final wait before starting FFmpeg...');
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+    }
+
+    // Additional wait to ensure page is fully rendered before capturing
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    // Position browser window at 0,0 in virtual display (if using virtual display)
+    if (this.session.positionWindow) {
+      this.positionWindow(captureWidth, captureHeight);
+    }
+
+    if (screencast) {
+      this.screencast = new ScreencastCapture(
+        { fps: finalFps, maxWidth: captureWidth, maxHeight: captureHeight, logger: this.log.child('screencast') },
+        { write: (frame) => this.supervisor?.write(frame) }
+      );
+      await this.screencast.attach(this.page!);
+      this.screencast.start();
+    }
+
+    // Before starting FFmpeg, ensure PulseAudio is running and sink exists
+    if (ownSink) {
+      // Verify PulseAudio is ready
+      const isReady = await this.ensureSinkReady(15);
+      if (!isReady) {
+        this.pulseLog.warn('PulseAudio verification failed, but continuing anyway - audio capture may not work');
+      }
+    }
+
+    // Meter the actual signal: a sink input can exist and still be silent
+    if (ownSink || browserAudio) {
+      const audioLog = ownSink ? this.pulseLog : this.log;
+      const audioName = ownSink ? this.sinkName : 'the page';
+      this.audioMeter = new AudioMeter({
+        // The browser backend hands its samples to the meter itself
+        source: ownSink ? `${this.sinkName}.monitor` : undefined,
+        env: this.getPulseEnv(),
+        silenceThreshold,
+        silenceAlertAfter,
+        logger: this.audioLog,
+      });
+      for (const event of ['silence', 'sound']) {
+        this.audioMeter.on(event, (payload) => this.emit(`audio:${event}`, payload));
+      }
+      this.audioMeter.start();
+
+      if (audioGateTimeout > 0) {
+        audioLog.info(`Waiting up to ${audioGateTimeout / 1000}s for sound on ${audioName}...`);
+        if (await this.audioMeter.waitForSound(audioGateTimeout)) {
+          const { rms, peak } = this.audioMeter.levels;
+          audioLog.info(`Sound detected (RMS ${rms} dBFS, peak ${peak} dBFS)`);
+        } else {
+          audioLog.warn(`No sound on ${audioName} after ${audioGateTimeout / 1000}s, starting anyway`);
+        }
+      }
+    }
+
+    // Region capture: a fixed rectangle, or an element that is followed while streaming
+    let region = captureRegion ?? null;
+    if (captureSelector) {
+      this.regionTracker = this.createRegionTracker(captureSelector, captureTrackInterval, deviceScaleFactor, captureWidth, captureHeight);
+      region = await this.regionTracker.locate();
+      if (!region) {
+        this.browserLog.warn(`Capture element "${captureSelector}" not found, streaming the whole page until it shows up`);
+      }
+    }
+    if (region) {
+      this.captureCrop = cropRect(region, deviceScaleFactor, captureWidth, captureHeight);
+      this.log.info(`Capturing ${region.width}x${region.height} at ${region.x},${region.y} of the page`);
+      // Without an explicit size the stream is as large as the region on the page
+      streamWidthFinal = streamWidth ?? encoder.width ?? Math.max(2, Math.round(region.width / 2) * 2);
+      streamHeightFinal = streamHeight ?? encoder.height ?? Math.max(2, Math.round(region.height / 2) * 2);
+    }
+    const source = this.captureCrop ?? { width: captureWidth, height: captureHeight };
+    if (source.width !== streamWidthFinal || source.height !== streamHeightFinal) {
+      this.log.info(`Scaling ${source.width}x${source.height} capture to ${streamWidthFinal}x${streamHeightFinal} (${scaleMode})`);
+    }
+
+    // Start FFmpeg streaming
+    // Browser is at captureWidth x captureHeight, but stream can be at different resolution
+    await this.startFFmpegStream(
+      targets, 
+      captureWidth, 
+      captureHeight, 
+      streamWidthFinal, 
+      streamHeightFinal,
+      { scaleMode, padColor },
+      finalFps, 
+      audioDevice, 
+      videoDevice, 
+      useVirtualDisplay, 
+      encoder,
+      { maxRestarts, initialDelay: restartDelay, maxDelay: maxRestartDelay, logger: this.ffmpegLog },
+      record,
+      preview ? this.preparePreviewDir() : undefined,
+      audioMix
+    );
+
+    // Watch for browser crashes and hangs; recovery relaunches the browser while FFmpeg keeps running
+    if (enableWatchdog) {
+      this.watchdog = new BrowserWatchdog({
+        interval: watchdogInterval,
+        recover: () => this.recoverBrowser(),
+        logger: this.browserLog,
+      });
+      for (const event of WATCHDOG_EVENTS) {
+        this.watchdog.on(event, (payload) => this.emit(`browser:${event}`, payload));
+      }
+      this.watchdog.watch(this.browser!, this.page!);
+    }
+
+    if (playlist) {
+      this.rotator = this.createRotator(playlist);
+      await this.rotator.start();
+    }
+
+    this.regionTracker?.start();
+
+    this.log.info('Stream started successfully!');
+  }
+
+  /**
+   * Rotator that cycles the playlist in the current browser
+   * The session follows the page on air, so a browser relaunch comes back to it.
+   */
+  private createRotator(playlist: PlaylistOptions): PageRotator {
+    const rotator = new PageRotator(playlist, {
+      // Hold the rotation while the fallback is up
+      getPage: () => (this.fallback?.active ? null : this.page),
+      preparePage: (page, entry) => this.preparePage(page, entry.actions ?? [], entry.audio === false ? false : this.session?.autoplay),
+      setAudio: (enabled) => this.setPageAudio(enabled),
+      logger: this.log.child('playlist'),
+    });
+    rotator.on('page', (payload: { index: number; url: string }) => {
+      const entry: PlaylistPage = playlist.pages[payload.index];
+      if (this.session) {
+        this.session.url = entry.url;
+        this.session.actions = entry.actions ?? [];
+      }
+      this.emit('playlist:page', payload);
+    });
+    rotator.on('page-error', (payload) => this.emit('playlist:page-error', payload));
+    return rotator;
+  }
+
+  /**
+   * Tracker that follows the captured element and restarts FFmpeg with the new crop when it moves
+   */
+  private createRegionTracker(
+    selector: string,
+    interval: number | undefined,
+    deviceScaleFactor: number,
+    captureWidth: number,
+    captureHeight: number
+  ): RegionTracker {
+    const tracker = new RegionTracker({ selector, interval, deviceScaleFactor, logger: this.log.child('region') }, {
+      // Nothing to follow while the fallback is up
+      getPage: () => (this.fallback?.active ? null : this.page),
+    });
+    tracker.on('move', (payload: { region: CaptureRegion }) => {
+      this.captureCrop = cropRect(payload.region, deviceScaleFactor, captureWidth, captureHeight);
+      this.emit('capture:move', { region: payload.region, crop: this.captureCrop });
+      this.supervisor?.restartNow();
     });
+    for (const event of ['lost', 'found']) {
+      tracker.on(event, (payload) => this.emit(`capture:${event}`, payload));
+    }
+    return tracker;
+  }
+
+  /**
+   * Let the page's sound into the stream or keep it out
+   * With our own sink the sink is muted, so even new audio streams of the next page stay silent;
+   * the browser backend writes silence in place of the page's samples.
+   */
+  private async setPageAudio(enabled: boolean): Promise<void> {
+    this.audioMeter?.expectSilence(!enabled);
+    if (this.browserAudio) {
+      this.browserAudio.setMuted(!enabled);
+      return;
+    }
+    if (this.session?.ownSink) {
+      try {
+        await this.pulse.setSinkMute(this.sinkName, !enabled);
+      } catch (e) {
+        this.pulseLog.warn(`Could not ${enabled ? 'unmute' : 'mute'} ${this.sinkName}: ${e instanceof Error ? e.message : e}`);
+      }
+      return;
+    }
+    await this.page?.evaluate(`document.querySelectorAll('audio, video').forEach((el) => { el.muted = ${!enabled}; })`)
+      .catch(() => {});
+  }
+
+  /**
+   * Launch the browser, load the page and run the action script
+   * Used at startup and again by the watchdog after a crash or hang.
+   */
+  private async openBrowser(session: BrowserSession): Promise<void> {
+    const {
+      url,
+      launchOptions,
+      width: finalWidth,
+      height: finalHeight,
+      deviceScaleFactor,
+      lightweight,
+      actions,
+      autoplay,
+    } = session;
+
+    this.browser = await puppeteer.launch(launchOptions);
 
     // In app mode, the page is already loaded, so get it
     const pages = await this.browser.pages();
     this.page = pages[0] || await this.browser.newPage();
-    await this.page.setViewport({ width: finalWidth, height: finalHeight });
+    await this.page.setViewport({ width: finalWidth, height: finalHeight, deviceScaleFactor });
+    await this.browserAudio?.attach(this.page);
 
     // Lightweight optimizations: block some resources but keep stylesheets, fonts, and audio for design and sound
     if (lightweight) {
@@ -214,7 +690,9 @@ class WebStreamer {
         const isAudio = url.match(/\.(mp3|wav|ogg|aac|m4a|flac|opus|webm)(\?|$)/i) || 
                        req.headers()['content-type']?.match(/audio\//i);
         
-        if (resourceType === 'image') {
+        if (url.startsWith('file:')) {
+          req.continue().catch(() => {}); // Local fallback content
+        } else if (resourceType === 'image') {
           req.abort().catch(() => {}); // Block images
         } else if (resourceType === 'media' && !isAudio) {
           req.abort().catch(() => {}); // Block video but allow audio
@@ -224,19 +702,40 @@ class WebStreamer {
       });
     }
 
+    // Why the page can't be shown; only looked at when there is fallback content
+    let failure: string | null = null;
+
     // In app mode, page is already loaded, just wait for it to be ready
     const currentUrl = this.page.url();
     if (currentUrl && currentUrl !== 'about:blank' && currentUrl.includes(url.split('?')[0])) {
-      console.log(`Page already loaded in app mode (no browser UI)`);
+      this.browserLog.info(`Page already loaded in app mode (no browser UI)`);
       // Wait for page to be fully ready
       await new Promise((resolve) => setTimeout(resolve, 2000));
+      // App mode doesn't tell us the status, so ask the server
+      failure = this.fallback ? await probeUrl(url) : null;
     } else {
       // Navigate to the webpage (fallback if app mode didn't work)
-      console.log(`Navigating to ${url}...`);
-      await this.page.goto(url, { 
-        waitUntil: lightweight ? 'domcontentloaded' : 'networkidle2',
-        timeout: lightweight ? 10000 : 30000 
-      });
+      this.browserLog.info(`Navigating to ${url}...`);
+      try {
+        const response = await this.page.goto(url, { 
+          waitUntil: lightweight ? 'domcontentloaded' : 'networkidle2',
+          timeout: lightweight ? 10000 : 30000 
+        });
+        failure = response && response.status() >= 500 ? `HTTP ${response.status()}` : null;
+      } catch (error) {
+        if (!this.fallback) {
+          throw error;
+        }
+        failure = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (this.fallback) {
+      this.watchForServerErrors(this.page);
+      if (failure) {
+        await this.fallback.show(this.page, failure);
+        return;
+      }
     }
 
     // Wait a bit for page to fully load (less time in lightweight mode)
@@ -245,464 +744,120 @@ class WebStreamer {
     // Kiosk mode should already hide browser UI completely
     // The --kiosk flag removes all browser chrome (tabs, address bar, etc.)
 
-    // Perform click action if specified (to enable audio playback)
-    if (clickSelector || (clickX !== undefined && clickY !== undefined)) {
-      // Wait a bit more in lightweight mode for page to be ready
-      if (lightweight) {
-        console.log('Waiting for page to be fully ready before clicking...');
-        await new Promise((resolve) => setTimeout(resolve, 3000));
+    // Wait a bit more in lightweight mode for page to be ready
+    if (actions.length > 0 && lightweight) {
+      this.browserLog.info('Waiting for page to be fully ready before running actions...');
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+    }
+    await this.preparePage(this.page, actions, autoplay);
+    this.fallback?.restored();
+  }
+
+  /**
+   * Switch to the fallback when the page itself navigates to a 5xx (e.g. a meta refresh during an outage)
+   */
+  private watchForServerErrors(page: Page): void {
+    page.on('response', (response) => {
+      if (
+        response.status() >= 500
+        && response.request().isNavigationRequest()
+        && response.frame() === page.mainFrame()
+        && this.fallback
+        && !this.fallback.active
+      ) {
+        this.fallback.show(page, `HTTP ${response.status()}`).catch(() => {});
       }
-      await this.performClick(clickSelector, clickX, clickY, clickDelay, lightweight);
+    });
+  }
+
+  /**
+   * Go back from the fallback to the page and bring it to its initial state
+   */
+  private async restorePage(page: Page): Promise<void> {
+    const { url, lightweight, actions, autoplay } = this.session!;
+    const response = await page.goto(url, {
+      waitUntil: lightweight ? 'domcontentloaded' : 'networkidle2',
+      timeout: lightweight ? 10000 : 30000,
+    });
+    if (response && response.status() >= 500) {
+      throw new Error(`HTTP ${response.status()}`);
     }
+    await this.preparePage(page, actions, autoplay);
+  }
 
-    // After click, wait for audio to start and verify it's in stream_sink
-    // Since stream_sink is the default sink, new audio should automatically go there
-    if (useVirtualDisplay && process.platform === 'linux') {
-      console.log('Waiting for audio to start and appear in stream_sink...');
-      await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait longer for audio to start after click
-      
-      const { exec } = require('child_process');
-      
-      // Wait for audio to appear in stream_sink (it should be there automatically since it's default)
-      await new Promise<void>((resolve) => {
-        let attempts = 0;
-        const maxAttempts = 20; // Increased to 20 attempts (40 seconds total)
-        
-        const checkAudio = () => {
-          attempts++;
-          console.log(`Checking for audio (attempt ${attempts}/${maxAttempts})...`);
-          
-          // First, check if there are any sink inputs at all
-          exec('pactl list short sink-inputs', { 
-            env: this.getPulseEnv() 
-          }, (error2: any, stdout2: any) => {
-            if (!error2 && stdout2 && stdout2.trim()) {
-              const lines = stdout2.trim().split('\n');
-              console.log(`Found ${lines.length} sink input(s) in PulseAudio`);
-              
-              // Check each sink input to see where it's going
-              let movedAny = false;
-              lines.forEach((line: string) => {
-                const parts = line.split('\t');
-                const inputId = parts[0];
-                const sinkName = parts[1] || 'unknown';
-                console.log(`  Sink input ${inputId} -> ${sinkName}`);
-                
-                // If it's not in stream_sink, move it
-                if (!sinkName.includes('stream_sink')) {
-                  exec(`pactl move-sink-input ${inputId} stream_sink`, { 
-                    env: this.getPulseEnv() 
-                  }, (moveError: any) => {
-                    if (!moveError) {
-                      console.log(`  ✓ Moved sink input ${inputId} to stream_sink`);
-                      movedAny = true;
-                    } else {
-                      console.warn(`  ✗ Failed to move sink input ${inputId}: ${moveError}`);
-                    }
-                  });
-                } else {
-                  console.log(`  ✓ Sink input ${inputId} already in stream_sink`);
-                  movedAny = true;
-                }
-              });
-              
-              // If we found any sink inputs, wait a moment then verify they're in stream_sink
-              if (lines.length > 0) {
-                setTimeout(() => {
-                  // Verify they're actually in stream_sink now
-                  exec('pactl list sink-inputs | grep -A5 "Sink:" | grep -A5 "stream_sink" | grep "Sink Input"', { 
-                    env: this.getPulseEnv() 
-                  }, (verifyError: any, verifyStdout: any) => {
-                    if (!verifyError && verifyStdout && verifyStdout.trim()) {
-                      console.log('✓ Audio confirmed in stream_sink, ready for FFmpeg');
-                      resolve();
-                    } else {
-                      console.log('Audio found but not yet in stream_sink, waiting a bit more...');
-                      if (attempts < maxAttempts) {
-                        setTimeout(checkAudio, 2000);
-                      } else {
-                        console.warn('Audio found but could not verify it\'s in stream_sink');
-                        resolve();
-                      }
-                    }
-                  });
-                }, 2000);
-                return;
-              }
-            }
-            
-            // No sink inputs found yet
-            if (attempts < maxAttempts) {
-              console.log(`No audio yet, waiting 2 seconds... (${attempts}/${maxAttempts})`);
-              setTimeout(checkAudio, 2000);
-            } else {
-              console.warn('No audio sink inputs found after multiple attempts');
-              console.warn('This may mean:');
-              console.warn('  1. Audio is not playing in the browser');
-              console.warn('  2. Browser is not using PulseAudio');
-              console.warn('  3. Audio started before stream_sink was set as default');
-              console.warn('Continuing anyway - FFmpeg will try to capture from stream_sink.monitor');
-              resolve();
-            }
-          });
-        };
-        
-        checkAudio();
-      });
-      
-      // Additional wait to ensure audio is playing
-      console.log('Final wait before starting FFmpeg...');
-      await new Promise((resolve) => setTimeout(resolve, 3000));
+  /**
+   * Run the action script and get the page's sound going
+   * A failing required step throws, which aborts a browser launch.
+   */
+  private async preparePage(page: Page, actions: ActionStep[], autoplay: string[] | false | undefined): Promise<void> {
+    // Run the action script (login, banners, play button...)
+    if (actions.length > 0) {
+      // Pages load slower in lightweight mode
+      await runActions(page, actions, this.session?.lightweight ? 30000 : 10000, this.browserLog);
     }
 
-    // Additional wait to ensure page is fully rendered before capturing
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    // Get sound going if the page didn't start it by itself
+    if (autoplay !== false) {
+      await unlockAudio(page, {
+        strategies: autoplay,
+        logger: this.browserLog,
+        // With our own sink, only a stream in that sink counts; elsewhere ask the page
+        confirm: this.session?.ownSink
+          ? () => this.hasSinkInput()
+          : () => isPageAudible(page).catch(() => false),
+      });
+    }
+  }
 
-    // Position browser window at 0,0 in virtual display (if using virtual display)
-    if (useVirtualDisplay && process.platform === 'linux') {
-      // Wait a bit for browser to fully start, then position window
-      setTimeout(() => {
-        const { exec } = require('child_process');
-        exec(`DISPLAY=:${this.displayNumber} xdotool search --name "Chromium" windowmove 0 0 windowsize ${finalWidth} ${finalHeight} windowraise 2>/dev/null || true`, (error: any) => {
-          if (error) {
-            console.log('Window positioning attempted (xdotool may not be available)');
-          } else {
-            console.log('Browser window positioned at 0,0');
-          }
-        });
-      }, 1000);
+  /**
+   * Replace a crashed or hung browser with a fresh one, leaving FFmpeg running
+   */
+  private async recoverBrowser(): Promise<void> {
+    if (!this.session) {
+      throw new Error('No browser session to recover');
     }
 
-    // Before starting FFmpeg, ensure PulseAudio is running and sink exists
-    if (useVirtualDisplay && process.platform === 'linux') {
-      const { execSync } = require('child_process');
-      
-      const pulseEnv = this.getPulseEnv();
-      
-      // Robust verification function
-      const verifyPulseAudio = async (maxAttempts: number = 10): Promise<boolean> => {
-        for (let i = 0; i < maxAttempts; i++) {
-          try {
-            // Check if PulseAudio is accessible
-            execSync('pactl info > /dev/null 2>&1', { 
-              env: pulseEnv,
-              stdio: 'ignore' 
-            });
-            
-            // Check if socket exists
-            const socketPath = `${pulseEnv.PULSE_RUNTIME_PATH}/native`;
-            try {
-              execSync(`test -S "${socketPath}"`, { stdio: 'ignore' });
-            } catch (e) {
-              console.log(`Waiting for PulseAudio socket (attempt ${i + 1}/${maxAttempts})...`);
-              await new Promise((resolve) => setTimeout(resolve, 500));
-              continue;
-            }
-            
-            // Check if sink exists
-            try {
-              execSync('pactl list sinks | grep -q "stream_sink"', { 
-                env: pulseEnv,
-                stdio: 'ignore' 
-              });
-            } catch (e) {
-              console.log(`stream_sink not found, recreating (attempt ${i + 1}/${maxAttempts})...`);
-              try {
-                execSync('pactl load-module module-null-sink sink_name=stream_sink sink_properties=device.description="StreamSink"', { 
-                  env: pulseEnv,
-                  stdio: 'ignore' 
-                });
-                execSync('pactl set-default-sink stream_sink', { 
-                  env: pulseEnv,
-                  stdio: 'ignore' 
-                });
-                await new Promise((resolve) => setTimeout(resolve, 500));
-              } catch (e2) {
-                console.warn(`Failed to recreate sink: ${e2}`);
-                await new Promise((resolve) => setTimeout(resolve, 500));
-                continue;
-              }
-            }
-            
-            // Check if monitor exists
-            try {
-              execSync('pactl list sources | grep -q "stream_sink.monitor"', { 
-                env: pulseEnv,
-                stdio: 'ignore' 
-              });
-              console.log('✓ PulseAudio fully ready: socket, sink, and monitor confirmed');
-              return true;
-            } catch (e) {
-              console.log(`Monitor not ready yet (attempt ${i + 1}/${maxAttempts})...`);
-              await new Promise((resolve) => setTimeout(resolve, 500));
-              continue;
-            }
-          } catch (e) {
-            console.log(`PulseAudio not accessible yet (attempt ${i + 1}/${maxAttempts})...`);
-            // Try to restart PulseAudio
-            try {
-              execSync('pulseaudio --kill 2>/dev/null || true', { 
-                env: pulseEnv,
-                stdio: 'ignore' 
-              });
-              execSync('pulseaudio --daemonize --exit-idle-time=-1 --system=false --disallow-exit', { 
-                env: pulseEnv,
-                stdio: 'ignore' 
-              });
-              await new Promise((resolve) => setTimeout(resolve, 1000));
-            } catch (e2) {
-              // Ignore restart errors
-            }
-            await new Promise((resolve) => setTimeout(resolve, 500));
-          }
-        }
-        return false;
-      };
-      
-      // Verify PulseAudio is ready
-      const isReady = await verifyPulseAudio(15);
-      if (!isReady) {
-        console.warn('⚠ PulseAudio verification failed, but continuing anyway...');
-        console.warn('Audio capture may not work');
-      }
+    if (this.browser) {
+      const oldBrowser = this.browser;
+      this.browser = null;
+      this.page = null;
+      // close() can hang on a wedged browser - kill it if it doesn't exit in time
+      await Promise.race([
+        oldBrowser.close().catch(() => {}),
+        new Promise((resolve) => setTimeout(resolve, 5000)),
+      ]);
+      oldBrowser.process()?.kill('SIGKILL');
     }
 
-    // Start FFmpeg streaming
-    // Browser is at finalWidth x finalHeight, but stream can be at different resolution
-    await this.startFFmpegStream(
-      rtmpsUrl, 
-      finalWidth, 
-      finalHeight, 
-      streamWidthFinal, 
-      streamHeightFinal,
-      finalFps, 
-      audioDevice, 
-      videoDevice, 
-      useVirtualDisplay, 
-      lightweight
-    );
+    this.browserRestarts++;
+    this.emit('browser:restart', { restarts: this.browserRestarts });
+    await this.openBrowser(this.session);
+    // The screencast belonged to the old browser's page
+    await this.screencast?.attach(this.page!);
+
+    if (this.session.positionWindow) {
+      const { width, height, deviceScaleFactor } = this.session;
+      this.positionWindow(Math.round(width * deviceScaleFactor), Math.round(height * deviceScaleFactor));
+    }
 
-    console.log('Stream started successfully!');
+    this.watchdog?.watch(this.browser!, this.page!);
   }
 
   /**
-   * Perform a click action on the page (to enable audio playback)
+   * Move the browser window to 0,0 of the virtual display with xdotool
    */
-  private async performClick(
-    selector?: string,
-    x?: number,
-    y?: number,
-    delay: number = 1000,
-    lightweight: boolean = false
-  ): Promise<void> {
-    if (!this.page) {
-      throw new Error('Page not initialized');
-    }
-
-    try {
-      if (selector) {
-        console.log(`Clicking element with selector: ${selector}`);
-        
-        // Wait longer in lightweight mode as page loads slower
-        const timeout = lightweight ? 30000 : 10000;
-        console.log(`Waiting for selector (timeout: ${timeout}ms)...`);
-        
-        // Try multiple selector variations
-        const selectorVariations = [
-          selector,
-          selector.replace(/'/g, '"'), // Try with double quotes
-          selector.replace(/"/g, "'"), // Try with single quotes
-          selector.replace(/\[aria-label=['"]Play['"]\]/, '[aria-label="Play"]'), // Normalize quotes
-          selector.replace(/\[aria-label=['"]Play['"]\]/, "[aria-label='Play']"), // Normalize quotes
-        ];
-        
-        let elementFound = false;
-        let foundSelector = selector;
-        
-        for (const sel of selectorVariations) {
-          try {
-            console.log(`Trying selector variation: ${sel}`);
-            await this.page.waitForSelector(sel, { timeout: timeout / selectorVariations.length, visible: false });
-            foundSelector = sel;
-            elementFound = true;
-            console.log(`✓ Found element with selector: ${sel}`);
-            break;
-          } catch (e) {
-            // Try next variation
-            continue;
-          }
-        }
-        
-        if (!elementFound) {
-          // Last attempt: try to find any element with aria-label containing "Play" or any button/clickable element
-          try {
-            console.log('Trying to find any element with aria-label containing "Play"...');
-            const playElements = await this.page.$$eval('[aria-label*="Play"], [aria-label*="play"], [aria-label*="PLAY"]', (elements) => {
-              return elements.map((el, i) => ({
-                index: i,
-                ariaLabel: el.getAttribute('aria-label'),
-                tagName: el.tagName,
-                id: el.id,
-                className: el.className,
-                textContent: (el as any).textContent?.substring(0, 50) || ''
-              }));
-            });
-            
-            if (playElements.length > 0) {
-              console.log(`Found ${playElements.length} element(s) with aria-label containing "Play":`);
-              playElements.forEach((el: any) => {
-                console.log(`  - ${el.tagName}${el.id ? '#' + el.id : ''}${el.className ? '.' + el.className.split(' ')[0] : ''} (aria-label: "${el.ariaLabel}", text: "${el.textContent}")`);
-              });
-              
-              // Try to click the first one
-              foundSelector = '[aria-label*="Play"]';
-              elementFound = true;
-            } else {
-              // Check if there's a "Pause" button (audio is already playing)
-              console.log('No "Play" button found. Checking if audio is already playing (looking for "Pause" button)...');
-              const pauseElements = await this.page.$$eval('[aria-label*="Pause"], [aria-label*="pause"], [aria-label*="PAUSE"]', (elements) => {
-                return elements.map((el, i) => ({
-                  index: i,
-                  ariaLabel: el.getAttribute('aria-label'),
-                  tagName: el.tagName,
-                  id: el.id,
-                  className: el.className,
-                  textContent: (el as any).textContent?.substring(0, 50) || ''
-                }));
-              });
-              
-              if (pauseElements.length > 0) {
-                console.log(`Found ${pauseElements.length} "Pause" button(s) - audio is already playing!`);
-                pauseElements.forEach((el: any) => {
-                  console.log(`  - ${el.tagName}${el.id ? '#' + el.id : ''}${el.className ? '.' + el.className.split(' ')[0] : ''} (aria-label: "${el.ariaLabel}")`);
-                });
-                
-                // Click pause then play to force audio restart and sink input creation
-                console.log('Clicking Pause then Play to force audio sink creation...');
-                foundSelector = '[aria-label*="Pause"]';
-                elementFound = true;
-                
-                // We'll click pause first, then wait and click play
-                try {
-                  await this.page.click('[aria-label*="Pause"]');
-                  console.log('✓ Clicked Pause');
-                  await new Promise((resolve) => setTimeout(resolve, 1500));
-                  
-                  // Now look for Play button
-                  const playAfterPause = await this.page.$$eval('[aria-label*="Play"], [aria-label*="play"]', (elements) => {
-                    return elements.length > 0;
-                  });
-                  
-                  if (playAfterPause) {
-                    await this.page.click('[aria-label*="Play"]');
-                    console.log('✓ Clicked Play after Pause - audio should restart and create sink input');
-                    foundSelector = '[aria-label*="Play"]';
-                    // Wait a bit for audio to start and create sink input
-                    await new Promise((resolve) => setTimeout(resolve, 2000));
-                  } else {
-                    console.warn('Play button not found after clicking Pause');
-                  }
-                } catch (e) {
-                  console.warn('Could not click Pause/Play sequence:', e);
-                }
-              }
-            }
-            
-            if (!elementFound) {
-              // Try to find ALL elements with aria-label to see what's available
-              console.log('No elements with "Play" found. Searching for all elements with aria-label...');
-              const allAriaElements = await this.page.$$eval('[aria-label]', (elements) => {
-                return elements.map((el, i) => ({
-                  index: i,
-                  ariaLabel: el.getAttribute('aria-label'),
-                  tagName: el.tagName,
-                  id: el.id,
-                  className: el.className,
-                  textContent: (el as any).textContent?.substring(0, 50) || ''
-                }));
-              });
-              
-              if (allAriaElements.length > 0) {
-                console.log(`Found ${allAriaElements.length} element(s) with aria-label:`);
-                allAriaElements.slice(0, 10).forEach((el: any) => {
-                  console.log(`  - ${el.tagName}${el.id ? '#' + el.id : ''}${el.className ? '.' + el.className.split(' ')[0] : ''} (aria-label: "${el.ariaLabel}", text: "${el.textContent}")`);
-                });
-              }
-              
-              // Also try to find buttons or clickable elements
-              console.log('Searching for buttons and clickable elements...');
-              const buttons = await this.page.$$eval('button, [role="button"], [onclick], a[href]', (elements) => {
-                return elements.slice(0, 20).map((el, i) => ({
-                  index: i,
-                  tagName: el.tagName,
-                  id: el.id,
-                  className: el.className,
-                  textContent: (el as any).textContent?.substring(0, 50) || '',
-                  ariaLabel: el.getAttribute('aria-label') || ''
-                }));
-              });
-              
-              if (buttons.length > 0) {
-                console.log(`Found ${buttons.length} button/clickable element(s):`);
-                buttons.forEach((el: any) => {
-                  const label = el.ariaLabel || el.textContent || 'no label';
-                  console.log(`  - ${el.tagName}${el.id ? '#' + el.id : ''}${el.className ? '.' + el.className.split(' ')[0] : ''} (label: "${label}")`);
-                });
-              }
-            }
-          } catch (e) {
-            console.warn('Could not search for elements:', e);
-          }
-        }
-        
-        if (elementFound) {
-          // Try to click, with retry
-          let clicked = false;
-          for (let attempt = 0; attempt < 3; attempt++) {
-            try {
-              await this.page.click(foundSelector);
-              clicked = true;
-              break;
-            } catch (e) {
-              if (attempt < 2) {
-                console.log(`Click attempt ${attempt + 1} failed, retrying...`);
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-              } else {
-                // Try with evaluateHandle as last resort
-                try {
-                  const elementHandle = await this.page.$(foundSelector);
-                  if (elementHandle) {
-                    await elementHandle.click();
-                    clicked = true;
-                    await elementHandle.dispose();
-                  }
-                } catch (evalError) {
-                  throw e;
-                }
-              }
-            }
-          }
-          
-          if (clicked) {
-            console.log('Click performed successfully');
-          }
+  private positionWindow(width: number, height: number): void {
+    // Wait a bit for browser to fully start, then position window
+    setTimeout(() => {
+      const { exec } = require('child_process');
+      exec(`DISPLAY=:${this.displayNumber} xdotool search --name "Chromium" windowmove 0 0 windowsize ${width} ${height} windowraise 2>/dev/null || true`, (error: any) => {
+        if (error) {
+          this.xvfbLog.info('Window positioning attempted (xdotool may not be available)');
         } else {
-          throw new Error(`Could not find element with selector: ${selector}`);
+          this.xvfbLog.info('Browser window positioned at 0,0');
         }
-      } else if (x !== undefined && y !== undefined) {
-        console.log(`Clicking at coordinates: (${x}, ${y})`);
-        await this.page.mouse.click(x, y);
-        console.log('Click performed successfully');
-      }
-
-      // Wait a bit after clicking (for audio to start)
-      if (delay > 0) {
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    } catch (error) {
-      console.warn(`Warning: Click action failed: ${error}`);
-      // Don't throw - continue anyway as click might not be critical
-    }
+      });
+    }, 1000);
   }
 
   /**
@@ -717,357 +872,203 @@ class WebStreamer {
     };
   }
 
-  private async startPulseAudio(): Promise<void> {
-    return new Promise((resolve) => {
-      console.log('Starting PulseAudio for audio capture...');
-      const { exec, execSync } = require('child_process');
-      
-      // First, check if PulseAudio is already running
-      let pulseRunning = false;
+  // X display FFmpeg should capture from
+  private getDisplay(useVirtualDisplay: boolean): string {
+    return useVirtualDisplay ? `:${this.displayNumber}` : process.env.DISPLAY || ':0.0';
+  }
+
+  // Whether any application (the browser, not our loopbacks) is currently playing into this stream's sink
+  private async hasSinkInput(): Promise<boolean> {
+    try {
+      return (await this.pulse.applicationInputsOf(this.sinkName)).length > 0;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  // Map of PulseAudio sink index -> sink name
+  private async getSinkNames(): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    try {
+      (await this.pulse.listSinks()).forEach((sink) => names.set(sink.index, sink.name));
+    } catch (e) {
+      // PulseAudio not reachable - callers fall back to raw indexes
+    }
+    return names;
+  }
+
+  /**
+   * Wait for the browser's audio to show up in this stream's sink
+   * The browser is launched with PULSE_SINK, so this is mostly a check; inputs that still landed in a
+   * non-stream sink are moved over, other streams' inputs are left alone.
+   */
+  private async waitForSinkInput(maxAttempts: number = 20): Promise<void> {
+    let sawAudio = false;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.pulseLog.debug(`Checking for audio (attempt ${attempt}/${maxAttempts})...`);
+
+      let inputs: PulseSinkInput[] = [];
       try {
-        execSync('pulseaudio --check', { stdio: 'ignore' });
-        pulseRunning = true;
-        console.log('✓ PulseAudio is already running');
+        inputs = await this.pulse.listSinkInputs();
       } catch (e) {
-        console.log('PulseAudio is not running, starting it...');
-      }
-      
-      // If not running, start it
-      if (!pulseRunning) {
-        // Kill any existing PulseAudio processes
-        try {
-          execSync('pkill -9 pulseaudio 2>/dev/null || true', { stdio: 'ignore' });
-          // Wait a moment for processes to be killed
-          execSync('sleep 1', { stdio: 'ignore' });
-        } catch (e) {
-          // Ignore errors
-        }
-        
-        // Start PulseAudio daemon directly (not with --start which doesn't work in containers)
-        // Use --daemonize to run in background
-        try {
-          execSync('pulseaudio --kill 2>/dev/null || true', { stdio: 'ignore' });
-        } catch (e) {
-          // Ignore errors
-        }
-        
-        // Start PulseAudio as a daemon
-        const pulseEnv = this.getPulseEnv();
-        
-        // Create pulse directory if it doesn't exist
-        try {
-          execSync('mkdir -p /tmp/pulse 2>/dev/null || true', { stdio: 'ignore' });
-        } catch (e) {
-          // Ignore errors
-        }
-        
-        // Start PulseAudio daemon
-        // In containers, we need to use --daemonize without --start
-        try {
-          // Try using execSync with --daemonize first (works in containers)
-          const startOutput = execSync('pulseaudio --exit-idle-time=-1 --system=false --disallow-exit --daemonize 2>&1', {
-            env: pulseEnv,
-            encoding: 'utf8',
-            timeout: 5000
-          });
-          if (startOutput && startOutput.trim()) {
-            console.log(`PulseAudio start output: ${startOutput.trim()}`);
-          }
-          console.log('✓ PulseAudio daemon started via execSync (--daemonize)');
-        } catch (e: any) {
-          if (e.stdout) {
-            console.log(`PulseAudio start stdout: ${e.stdout.toString()}`);
-          }
-          if (e.stderr) {
-            console.log(`PulseAudio start stderr: ${e.stderr.toString()}`);
-          }
-          // If --daemonize doesn't work, try with --start
-          console.log('pulseaudio --daemonize failed, trying --start...');
-          try {
-            execSync('pulseaudio --start --exit-idle-time=-1 --system=false --disallow-exit', {
-              env: pulseEnv,
-              stdio: 'pipe',
-              timeout: 5000
-            });
-            console.log('✓ PulseAudio daemon started via --start');
-          } catch (e2: any) {
-            // If that doesn't work, try starting as a background process
-            console.log('pulseaudio --start failed, trying spawn with daemonize...');
-          try {
-            // Use spawn to start PulseAudio in background
-            this.pulseAudioProcess = spawn('pulseaudio', [
-              '--exit-idle-time=-1',
-              '--system=false',
-              '--disallow-exit',
-              '--daemonize',
-            ], {
-              env: pulseEnv,
-              detached: false,
-              stdio: 'pipe'
-            });
-            
-            // Capture PulseAudio output for debugging
-            this.pulseAudioProcess.stdout?.on('data', (data: Buffer) => {
-              const output = data.toString();
-              console.log(`PulseAudio stdout: ${output}`);
-            });
-            
-            this.pulseAudioProcess.stderr?.on('data', (data: Buffer) => {
-              const output = data.toString();
-              if (output.includes('error') || output.includes('Error') || output.includes('failed')) {
-                console.warn(`PulseAudio stderr: ${output}`);
-              } else {
-                console.log(`PulseAudio stderr: ${output}`);
-              }
-            });
-
-            this.pulseAudioProcess.on('error', (error) => {
-              console.error(`✗ PulseAudio spawn error: ${error.message}`);
-            });
-            
-            this.pulseAudioProcess.on('exit', (code) => {
-              if (code !== 0 && code !== null) {
-                console.warn(`PulseAudio process exited with code ${code}`);
-              } else {
-                console.log('✓ PulseAudio daemon started via spawn');
-              }
-            });
-          } catch (spawnError) {
-            console.error('✗ Failed to start PulseAudio:', spawnError);
-          }
-          }
-        }
+        this.pulseLog.warn(`Could not list sink inputs: ${e instanceof Error ? e.message : e}`);
       }
 
-      // Wait for PulseAudio to be ready, then create a virtual sink
-      let attempts = 0;
-      const maxAttempts = 30; // Increased to 30 attempts (15 seconds total)
-      
-      const checkPulse = () => {
-        attempts++;
-        const pulseEnv = {
-          ...process.env,
-          PULSE_RUNTIME_PATH: process.env.PULSE_RUNTIME_PATH || '/tmp/pulse',
-          PULSE_STATE_PATH: process.env.PULSE_STATE_PATH || '/tmp/pulse',
-        };
-        
-        try {
-          // First check if PulseAudio is running
-          execSync('pulseaudio --check', { 
-            env: pulseEnv,
-            stdio: 'ignore' 
-          });
-          
-          // Check if socket exists and is accessible
-          let socketPath = pulseEnv.PULSE_RUNTIME_PATH + '/native';
-          let socketExists = false;
-          try {
-            execSync(`test -S "${socketPath}"`, { stdio: 'ignore' });
-            socketExists = true;
-            console.log(`✓ PulseAudio socket found at ${socketPath}`);
-            
-            // Check socket permissions
+      if (inputs.length > 0) {
+        sawAudio = true;
+        const sinkNames = await this.getSinkNames();
+        this.pulseLog.info(`Found ${inputs.length} sink input(s) in PulseAudio`);
+
+        for (const input of inputs) {
+          const sinkName = sinkNames.get(input.sink) ?? input.sink.toString();
+          this.pulseLog.debug(`Sink input ${input.index} -> ${sinkName}`);
+
+          if (sinkName === this.sinkName) {
+            this.pulseLog.info(`Sink input ${input.index} already in ${this.sinkName}`);
+          } else if (sinkName.startsWith(DEFAULT_SINK_NAME)) {
+            // Belongs to another stream - leave it alone
+            this.pulseLog.info(`Sink input ${input.index} belongs to another stream (${sinkName}), skipping`);
+          } else {
             try {
-              const socketInfo = execSync(`ls -la "${socketPath}"`, { encoding: 'utf8' });
-              console.log(`Socket info: ${socketInfo.trim()}`);
+              await this.pulse.moveSinkInput(input.index, this.sinkName);
+              this.pulseLog.info(`Moved sink input ${input.index} to ${this.sinkName}`);
             } catch (e) {
-              // Ignore
-            }
-          } catch (socketError) {
-            console.log(`Socket not found at ${socketPath}, checking alternative locations...`);
-            // Try to find socket in other locations
-            const altPaths = [
-              '/tmp/pulse/native',
-              process.env.HOME ? `${process.env.HOME}/.config/pulse/native` : null,
-              '/run/user/' + (process.getuid ? process.getuid() : '1000') + '/pulse/native'
-            ].filter(p => p !== null);
-            
-            for (const altPath of altPaths) {
-              try {
-                execSync(`test -S "${altPath}"`, { stdio: 'ignore' });
-                console.log(`✓ Found PulseAudio socket at ${altPath}`);
-                socketExists = true;
-                // Update PULSE_RUNTIME_PATH to match found socket
-                pulseEnv.PULSE_RUNTIME_PATH = altPath.replace('/native', '');
-                socketPath = altPath;
-                break;
-              } catch (e) {
-                // Not found at this path
-              }
-            }
-          }
-          
-          // Try to use pactl to verify PulseAudio is accessible
-          if (socketExists) {
-            try {
-              const pactlInfo = execSync('pactl info', { 
-                env: pulseEnv,
-                encoding: 'utf8',
-                stdio: 'pipe',
-                timeout: 2000
-              });
-              if (pactlInfo && pactlInfo.includes('Server String')) {
-                console.log('✓ PulseAudio is accessible via pactl');
-              } else {
-                throw new Error('pactl info did not return expected output');
-              }
-            } catch (pactlError: any) {
-              if (attempts < maxAttempts) {
-                console.log(`PulseAudio socket exists but pactl not accessible yet (attempt ${attempts}/${maxAttempts})...`);
-                if (pactlError.stderr) {
-                  console.log(`pactl error: ${pactlError.stderr.toString()}`);
-                }
-                setTimeout(checkPulse, 500);
-                return;
-              } else {
-                console.warn('⚠ PulseAudio socket exists but pactl is not accessible');
-                console.warn('This may indicate a permissions issue or PulseAudio configuration problem');
-              }
-            }
-          } else {
-            if (attempts < maxAttempts) {
-              console.log(`PulseAudio socket not found yet (attempt ${attempts}/${maxAttempts})...`);
-              setTimeout(checkPulse, 500);
-              return;
-            } else {
-              console.warn('⚠ PulseAudio socket was never created');
-              console.warn('PulseAudio may have failed to start properly');
-            }
-          }
-          
-          // If we got here and socket exists and pactl works, we're good
-          if (socketExists) {
-            console.log('✓ PulseAudio is running and accessible');
-          } else {
-            // Socket doesn't exist, but we'll continue anyway
-            if (attempts < maxAttempts) {
-              console.log(`PulseAudio socket not found yet (attempt ${attempts}/${maxAttempts})...`);
-              setTimeout(checkPulse, 500);
-              return;
-            } else {
-              console.warn('⚠ PulseAudio socket was never created');
-              console.warn('PulseAudio may have failed to start properly');
+              this.pulseLog.warn(`Failed to move sink input ${input.index}: ${e instanceof Error ? e.message : e}`);
             }
           }
-          
-          // Create virtual sink
-          console.log('Creating virtual sink...');
-          
-          // First, unload any existing sink with the same name
-          exec('pactl unload-module module-null-sink 2>/dev/null || true', { 
-            env: pulseEnv 
-          }, () => {
-            // Create a null sink (virtual audio device) that we can monitor
-            exec('pactl load-module module-null-sink sink_name=stream_sink sink_properties=device.description="StreamSink"', { 
-              env: pulseEnv 
-            }, (error: any, stdout: any, stderr: any) => {
-              if (error) {
-                console.warn('Could not create virtual sink, audio capture may not work');
-                console.warn(`Error: ${stderr}`);
-                resolve(); // Continue anyway
-              } else {
-                const moduleId = stdout?.toString().trim();
-                console.log(`✓ Virtual sink created successfully (module ID: ${moduleId})`);
-                
-                // Wait a moment for the monitor to be created
-                setTimeout(() => {
-                  // Verify monitor exists
-                  exec('pactl list sources | grep -q "stream_sink.monitor"', { 
-                    env: pulseEnv 
-                  }, (monitorError: any) => {
-                    if (monitorError) {
-                      console.warn('Monitor not found, but sink exists');
-                    } else {
-                      console.log('✓ Monitor stream_sink.monitor confirmed');
-                    }
-                    
-                    // Set stream_sink as default sink for new applications
-                    exec('pactl set-default-sink stream_sink', { 
-                      env: pulseEnv 
-                    }, (setError: any) => {
-                      if (setError) {
-                        console.warn('Could not set stream_sink as default, but sink exists');
-                      } else {
-                        console.log('✓ stream_sink set as default sink');
-                      }
-                      
-                      // Also create a loopback from default source to stream_sink
-                      // This will route any audio going to the default sink to stream_sink
-                      setTimeout(() => {
-                        exec('pactl load-module module-loopback source=@DEFAULT_SOURCE@ sink=stream_sink latency_msec=1', { 
-                          env: pulseEnv 
-                        }, (loopbackError: any, loopbackStdout: any) => {
-                          if (loopbackError) {
-                            console.warn('Could not create loopback (may not be needed):', loopbackError.message);
-                          } else {
-                            const loopbackId = loopbackStdout?.toString().trim();
-                            console.log(`✓ Loopback created (module ID: ${loopbackId}) - routing default source to stream_sink`);
-                          }
-                          resolve();
-                        });
-                      }, 500);
-                    });
-                  });
-                }, 500);
-              }
-            });
-          });
-        } catch (e) {
-          if (attempts < maxAttempts) {
-            // Try to get more info about why it's failing
-            try {
-              const checkOutput = execSync('pulseaudio --check -v 2>&1 || true', { encoding: 'utf8' });
-              if (checkOutput && checkOutput.trim()) {
-                console.log(`PulseAudio check output: ${checkOutput.trim()}`);
-              }
-            } catch (e2) {
-              // Ignore
-            }
-            
-            // Also check if socket exists
-            const socketPaths = [
-              process.env.PULSE_RUNTIME_PATH ? `${process.env.PULSE_RUNTIME_PATH}/native` : null,
-              '/tmp/pulse/native',
-              process.env.HOME ? `${process.env.HOME}/.config/pulse/native` : null,
-              '/run/user/' + (process.getuid ? process.getuid() : '1000') + '/pulse/native'
-            ].filter(p => p !== null);
-            
-            let socketFound = false;
-            for (const socketPath of socketPaths) {
-              try {
-                execSync(`test -S "${socketPath}"`, { stdio: 'ignore' });
-                console.log(`✓ Found PulseAudio socket at ${socketPath}`);
-                socketFound = true;
-                break;
-              } catch (e3) {
-                // Socket not found at this path
-              }
-            }
-            
-            if (socketFound) {
-              // Socket exists, PulseAudio should be ready
-              console.log('✓ PulseAudio socket found, assuming PulseAudio is ready');
-              // Continue with sink creation
-              setTimeout(() => {
-                checkPulse();
-              }, 100);
-              return;
-            }
-            
-            console.log(`Waiting for PulseAudio to be ready (attempt ${attempts}/${maxAttempts})...`);
-            setTimeout(checkPulse, 500);
-          } else {
-            console.error('✗ PulseAudio failed to start after multiple attempts');
-            // Try to continue anyway - maybe PulseAudio is running but --check doesn't work
-            console.log('Attempting to continue anyway - PulseAudio may be running...');
-            resolve(); // Continue anyway
+        }
+
+        // Give moves a moment, then verify one of the inputs is in our sink
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        if (await this.hasSinkInput()) {
+          this.pulseLog.info(`Audio confirmed in ${this.sinkName}, ready for FFmpeg`);
+          return;
+        }
+        this.pulseLog.info(`Audio found but not yet in ${this.sinkName}, waiting a bit more...`);
+      } else {
+        this.pulseLog.debug(`No audio yet, waiting 2 seconds... (${attempt}/${maxAttempts})`);
+      }
+
+      if (attempt < maxAttempts) {
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
+    }
+
+    if (sawAudio) {
+      this.pulseLog.warn(`Audio found but could not verify it's in ${this.sinkName}`);
+      return;
+    }
+    // Either no audio is playing, the browser isn't using PulseAudio, or audio started before the sink existed
+    this.pulseLog.warn(`No audio sink inputs found after multiple attempts. Continuing anyway - FFmpeg will try to capture from ${this.sinkName}.monitor`);
+  }
+
+  /**
+   * Make sure PulseAudio answers and this stream's sink and monitor exist, recreating what is missing
+   */
+  private async ensureSinkReady(maxAttempts: number): Promise<boolean> {
+    for (let i = 1; i <= maxAttempts; i++) {
+      const attempt = `(attempt ${i}/${maxAttempts})`;
+      try {
+        if (!(await this.pulse.isReachable())) {
+          this.pulseLog.debug(`PulseAudio not accessible yet ${attempt}...`);
+          // Only start a daemon that is gone; restarting a live one would drop other streams' sinks
+          if (!(await this.pulse.isDaemonRunning())) {
+            await this.pulse.startDaemon();
+            await new Promise((resolve) => setTimeout(resolve, 1000));
           }
+        } else if (!(await this.pulse.hasSink(this.sinkName))) {
+          this.pulseLog.info(`${this.sinkName} not found, recreating ${attempt}...`);
+          await this.createSink();
+        } else if (await this.pulse.hasSource(`${this.sinkName}.monitor`)) {
+          this.pulseLog.info('PulseAudio fully ready: sink and monitor confirmed');
+          return true;
+        } else {
+          this.pulseLog.debug(`Monitor not ready yet ${attempt}...`);
         }
-      };
-      
-      // Start checking after a short delay
-      setTimeout(checkPulse, pulseRunning ? 500 : 2000);
+      } catch (e) {
+        this.pulseLog.warn(`PulseAudio check failed ${attempt}: ${e instanceof Error ? e.message : e}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    return false;
+  }
+
+  /**
+   * Start PulseAudio (unless it is already running) and create this stream's sink
+   */
+  private async startPulseAudio(): Promise<void> {
+    this.pulseLog.info('Starting PulseAudio for audio capture...');
+    const pulseEnv = this.getPulseEnv();
+    mkdirSync(pulseEnv.PULSE_RUNTIME_PATH!, { recursive: true });
+
+    if (await this.pulse.isDaemonRunning()) {
+      this.pulseLog.info('PulseAudio is already running');
+    } else {
+      this.pulseLog.info('PulseAudio is not running, starting it...');
+      try {
+        await this.pulse.startDaemon();
+        this.pulseLog.info('PulseAudio daemon started');
+      } catch (e) {
+        this.pulseLog.error(`Failed to start PulseAudio: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+
+    if (!(await this.pulse.waitUntilReachable(15000))) {
+      this.pulseLog.error('PulseAudio is not accessible via pactl after 15s');
+      this.pulseLog.info('Attempting to continue anyway - audio capture may not work');
+      return;
+    }
+    this.pulseLog.info('PulseAudio is running and accessible');
+
+    try {
+      await this.createSink();
+    } catch (e) {
+      this.pulseLog.warn('Could not create virtual sink, audio capture may not work', { error: e });
+    }
+  }
+
+  /**
+   * Create this stream's null sink; the default stream also becomes the default sink
+   * Modules left behind for the same sink name (e.g. by a crashed run) are unloaded first.
+   */
+  private async createSink(): Promise<void> {
+    for (const module of await this.pulse.listModules()) {
+      if (module.argument.split(/\s+/).includes(`sink_name=${this.sinkName}`)) {
+        this.pulseLog.info(`Unloading stale module ${module.index} (${module.name}) for ${this.sinkName}`);
+        await this.pulse.unloadModule(module.index);
+      }
+    }
+
+    const moduleId = await this.pulse.loadModule('module-null-sink', {
+      sink_name: this.sinkName,
+      sink_properties: `device.description=${this.sinkName}`,
     });
+    this.pulseLog.info(`Virtual sink ${this.sinkName} created successfully (module ID: ${moduleId})`);
+
+    // Additional streams rely on PULSE_SINK only: changing the default sink
+    // or looping the default source would pull in other streams' audio
+    if (this.sinkName !== DEFAULT_SINK_NAME) {
+      return;
+    }
+
+    try {
+      await this.pulse.setDefaultSink(this.sinkName);
+      this.pulseLog.info(`${this.sinkName} set as default sink`);
+    } catch (e) {
+      this.pulseLog.warn(`Could not set ${this.sinkName} as default, but sink exists`);
+    }
+
+    // Route anything recorded from the default source into the stream as well
+    try {
+      const loopbackId = await this.pulse.loadModule('module-loopback', {
+        source: '@DEFAULT_SOURCE@',
+        sink: this.sinkName,
+        latency_msec: 1,
+      });
+      this.pulseLog.info(`Loopback created (module ID: ${loopbackId}) - routing default source to ${this.sinkName}`);
+    } catch (e) {
+      this.pulseLog.warn(`Could not create loopback (may not be needed): ${e instanceof Error ? e.message : e}`);
+    }
   }
 
   /**
@@ -1077,7 +1078,7 @@ class WebStreamer {
     return new Promise((resolve) => {
       // Use openbox or fluxbox if available, otherwise use xdotool to position window
       // For simplicity, we'll use xdotool after browser starts
-      console.log('Window manager will position browser window after launch');
+      this.xvfbLog.info('Window manager will position browser window after launch');
       setTimeout(() => resolve(), 500);
     });
   }
@@ -1087,7 +1088,7 @@ class WebStreamer {
    */
   private async setupVirtualDisplay(width: number, height: number): Promise<void> {
     return new Promise((resolve, reject) => {
-      console.log(`Setting up virtual display :${this.displayNumber} (${width}x${height})`);
+      this.xvfbLog.info(`Setting up virtual display :${this.displayNumber} (${width}x${height})`);
       
       this.xvfbProcess = spawn('Xvfb', [
         `:${this.displayNumber}`,
@@ -1099,26 +1100,25 @@ class WebStreamer {
       ]);
 
       this.xvfbProcess.stdout?.on('data', (data: Buffer) => {
-        console.log(`Xvfb stdout: ${data.toString()}`);
+        this.xvfbLog.debug(`Xvfb stdout: ${data.toString().trim()}`);
       });
 
       this.xvfbProcess.stderr?.on('data', (data: Buffer) => {
         // Xvfb outputs to stderr, but it's usually not an error
-        const output = data.toString();
-        if (output.includes('error') || output.includes('Error')) {
-          console.error(`Xvfb error: ${output}`);
+        for (const line of data.toString().split('\n').filter((entry) => entry.trim())) {
+          this.xvfbLog.write(/error/i.test(line) ? 'error' : 'debug', line);
         }
       });
 
       this.xvfbProcess.on('error', (error: Error) => {
-        console.error('Xvfb process error:', error);
+        this.xvfbLog.error('Xvfb process error', { error });
         reject(new Error(`Failed to start Xvfb: ${error.message}. Make sure Xvfb is installed.`));
       });
 
       // Wait a moment for Xvfb to start
       setTimeout(() => {
         if (this.xvfbProcess && !this.xvfbProcess.killed) {
-          console.log('Virtual display started successfully');
+          this.xvfbLog.info('Virtual display started successfully');
           resolve();
         } else {
           reject(new Error('Xvfb process failed to start'));
@@ -1128,479 +1128,654 @@ class WebStreamer {
   }
 
   /**
-   * Retry FFmpeg with silent audio if audio capture fails
+   * Build the FFmpeg capture inputs (screen + audio) for this platform
+   * Called again on every restart, so PulseAudio availability is re-checked each time.
+   * With silentAudio, the screen is paired with anullsrc instead of PulseAudio capture.
    */
-  private async retryWithSilentAudio(
-    rtmpsUrl: string,
+  private buildCaptureInputs(
+    silentAudio: boolean,
     captureWidth: number,
     captureHeight: number,
-    streamWidth: number,
-    streamHeight: number,
     fps: number,
-    useVirtualDisplay: boolean,
-    lightweight: boolean
-  ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const platform = process.platform;
-      let inputOptions: string[] = [];
-      const display = process.env.DISPLAY || ':0.0';
-      const videoInput = `${display}+0,0`;
-      
-      inputOptions = [
+    audioDevice?: string,
+    videoDevice?: string,
+    useVirtualDisplay: boolean = false
+  ): string[] {
+    if (this.browserAudio) {
+      // The page's sound comes in on its own pipe, whatever the picture is grabbed with
+      return [...this.buildVideoInput(captureWidth, captureHeight, fps, videoDevice, useVirtualDisplay), ...browserAudioInputArgs()];
+    }
+
+    if (this.screencast) {
+      // Frames come in on stdin; the page's sound is still captured from our sink when there is one
+      const sinkAudio = !silentAudio && process.platform === 'linux' && useVirtualDisplay && this.sinkMonitorAvailable;
+      return [
+        ...screencastInputArgs(fps),
+        ...(sinkAudio
+          ? ['-f', 'pulse', '-ac', '2', '-ar', '44100', '-i', audioDevice || `${this.sinkName}.monitor`]
+          : ['-f', 'lavfi', '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100']),
+      ];
+    }
+
+    if (silentAudio) {
+      const display = this.getDisplay(useVirtualDisplay);
+      return [
         '-f', 'x11grab',
         '-framerate', fps.toString(),
         '-video_size', `${captureWidth}x${captureHeight}`,
-        '-i', videoInput,
+        '-i', `${display}+0,0`,
         '-f', 'lavfi',
         '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100',
       ];
+    }
 
-      const preset = lightweight ? 'ultrafast' : 'veryfast';
-      const crf = lightweight ? '28' : '23';
-      const maxrate = lightweight ? '1500k' : '4000k';
-      const bufsize = lightweight ? '3000k' : '8000k';
-      const audioBitrate = lightweight ? '64k' : '128k';
-      const audioSampleRate = lightweight ? '22050' : '44100';
-      const gopSize = fps <= 1 ? fps.toString() : (2 * fps).toString();
-
-      // Scale video if stream resolution is different from capture resolution
-      const needsScaling = streamWidth !== captureWidth || streamHeight !== captureHeight;
-      const scaleFilter = needsScaling ? `scale=${streamWidth}:${streamHeight}` : null;
-
-      const outputOptions = [
-        '-c:v', 'libx264',
-        ...(scaleFilter ? ['-vf', scaleFilter] : []), // Add scale filter if needed
-        '-preset', preset,
-        '-tune', 'zerolatency',
-        '-crf', crf,
-        '-maxrate', maxrate,
-        '-bufsize', bufsize,
-        '-pix_fmt', 'yuv420p',
-        '-g', gopSize,
-        '-threads', lightweight ? '2' : '0',
-        '-c:a', 'aac',
-        '-b:a', audioBitrate,
-        '-ar', audioSampleRate,
-        '-ac', '2',
-        '-f', 'flv',
-        rtmpsUrl,
+    // Detect platform for screen capture
+    const platform = process.platform;
+    let inputOptions: string[] = [];
+    let videoInput = '';
+    let audioInput = '';
+
+    if (platform === 'darwin') {
+      // macOS - use avfoundation
+      // List available devices: ffmpeg -f avfoundation -list_devices true -i ""
+      videoInput = videoDevice || '1'; // Default screen capture
+      audioInput = audioDevice || ':0'; // Default system audio
+      inputOptions = [
+        '-f', 'avfoundation',
+        '-framerate', fps.toString(),
+        '-video_size', `${captureWidth}x${captureHeight}`,
+        '-i', `${videoInput}:${audioInput}`,
+      ];
+    } else if (platform === 'linux') {
+      // Linux - use x11grab for video
+      // Capture from 0,0 at capture resolution (e.g., 1080p)
+      const display = this.getDisplay(useVirtualDisplay);
+      videoInput = `${display}+0,0`;
+      inputOptions = [
+        '-f', 'x11grab',
+        '-framerate', fps.toString(),
+        '-video_size', `${captureWidth}x${captureHeight}`,
+        '-i', videoInput,
       ];
 
-      const ffmpegArgs = [...inputOptions, ...outputOptions];
-      console.log('Retrying FFmpeg with silent audio:', ffmpegArgs.join(' '));
+      // For Railway/headless: try to capture audio from PulseAudio
+      if (useVirtualDisplay) {
+        if (this.sinkMonitorAvailable) {
+          const audioSource = audioDevice || `${this.sinkName}.monitor`;
+          this.ffmpegLog.info(`Capturing audio from PulseAudio: ${audioSource}`);
+          inputOptions.push(
+            '-f', 'pulse',
+            '-ac', '2',
+            '-ar', '44100',
+            '-i', audioSource
+          );
+        } else {
+          // Use silent audio - ALSA hardware devices don't exist in containers
+          this.ffmpegLog.warn('Using silent audio: PulseAudio is not accessible, so audio from the browser will not be captured');
+          inputOptions.push(
+            '-f', 'lavfi',
+            '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100',
+          );
+        }
+      } else {
+        // Try to use pulse audio if available
+        inputOptions.push(
+          '-f', 'pulse',
+          '-ac', '2',
+          '-i', audioDevice || 'default'
+        );
+      }
+    } else if (platform === 'win32') {
+      // Windows - use gdigrab for video and dshow for audio
+      inputOptions = [
+        '-f', 'gdigrab',
+        '-framerate', fps.toString(),
+        '-video_size', `${captureWidth}x${captureHeight}`,
+        '-i', 'desktop',
+        '-f', 'dshow',
+        '-i', audioDevice || 'audio="Stereo Mix (Realtek Audio)"',
+      ];
+    } else {
+      throw new Error(`Unsupported platform: ${platform}`);
+    }
 
-      // Pass PulseAudio environment variables to FFmpeg
-      const ffmpegEnv = {
-        ...process.env,
-        ...this.getPulseEnv(),
-      };
-      
-      this.ffmpegProcess = spawn('ffmpeg', ffmpegArgs, {
-        env: ffmpegEnv
-      });
+    return inputOptions;
+  }
 
-      if (this.ffmpegProcess.stdout) {
-        this.ffmpegProcess.stdout.on('data', (data: Buffer) => {
-          console.log(`FFmpeg stdout: ${data.toString()}`);
-        });
+  /**
+   * The picture alone, for when the sound doesn't come from the platform's audio capture
+   */
+  private buildVideoInput(
+    captureWidth: number,
+    captureHeight: number,
+    fps: number,
+    videoDevice?: string,
+    useVirtualDisplay: boolean = false
+  ): string[] {
+    if (this.screencast) {
+      return screencastInputArgs(fps);
+    }
+    const grab = ['-framerate', fps.toString(), '-video_size', `${captureWidth}x${captureHeight}`];
+    switch (process.platform) {
+      case 'darwin':
+        return ['-f', 'avfoundation', ...grab, '-i', `${videoDevice || '1'}:none`];
+      case 'linux':
+        return ['-f', 'x11grab', ...grab, '-i', `${this.getDisplay(useVirtualDisplay)}+0,0`];
+      case 'win32':
+        return ['-f', 'gdigrab', ...grab, '-i', 'desktop'];
+      default:
+        throw new Error(`Unsupported platform: ${process.platform}`);
+    }
+  }
+
+  /**
+   * Check that PulseAudio is reachable and this stream's sink monitor exists
+   * The answer is kept for buildCaptureInputs, which runs synchronously on every FFmpeg (re)start.
+   */
+  private async checkSinkMonitor(): Promise<boolean> {
+    this.sinkMonitorAvailable = await this.findSinkMonitor();
+    return this.sinkMonitorAvailable;
+  }
+
+  private async findSinkMonitor(): Promise<boolean> {
+    if (!(await this.pulse.isReachable())) {
+      this.pulseLog.warn('PulseAudio not accessible, will use silent audio');
+      return false;
+    }
+    try {
+      if (await this.pulse.hasSource(`${this.sinkName}.monitor`)) {
+        this.pulseLog.info(`PulseAudio is accessible and ${this.sinkName}.monitor exists`);
+        return true;
       }
+    } catch (e) {
+      // Treated like a missing monitor
+    }
+    this.pulseLog.warn(`${this.sinkName}.monitor not found, will use silent audio`);
+    return false;
+  }
 
-      if (this.ffmpegProcess.stderr) {
-        this.ffmpegProcess.stderr.on('data', (data: Buffer) => {
-          const output = data.toString();
-          if (output.includes('error') || output.includes('Error')) {
-            console.error(`FFmpeg error: ${output}`);
-          } else {
-            console.log(`FFmpeg: ${output}`);
-          }
-        });
+  /**
+   * Route browser audio into this stream's sink (ALSA source or loopbacks)
+   * Only needed once per stream; FFmpeg restarts reuse the routing. Runs in the background
+   * until `signal` aborts, and every module loaded here is tracked by the PulseAudio manager
+   * and unloaded when the stream stops.
+   */
+  private async setupAudioRouting(signal: AbortSignal): Promise<void> {
+    const describe = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+    try {
+      this.pulseLog.info(`Available sinks: ${(await this.pulse.listSinks()).map((sink) => sink.name).join(', ')}`);
+      this.pulseLog.info(`Default sink: ${(await this.pulse.info()).defaultSink || 'none'}`);
+    } catch (e) {
+      this.pulseLog.warn(`Could not inspect PulseAudio sinks: ${describe(e)}`);
+    }
+
+    // Browser audio may be going to ALSA directly: expose the ALSA device as a source
+    // and loop it into our sink
+    this.pulseLog.info('Browser may be using ALSA directly. Creating ALSA source...');
+    if (!(await this.pulse.isDaemonRunning())) {
+      this.pulseLog.error('PulseAudio is not running! Cannot create ALSA source.');
+      this.pulseLog.warn('Audio capture will likely fail');
+    }
+
+    // Wait a bit for PulseAudio to be fully ready
+    await delay(2000, undefined, { signal });
+    const alsaSource = `alsa_source_${this.displayNumber}`;
+    let alsaId: number | null = null;
+    try {
+      alsaId = await this.pulse.loadModule('module-alsa-source', { device: 'hw:0,0', source_name: alsaSource });
+      this.pulseLog.info(`ALSA source created (module ID: ${alsaId}) - capturing from hw:0,0`);
+    } catch (e) {
+      this.pulseLog.warn(`Could not create ALSA source: ${describe(e)}`);
+      this.pulseLog.warn('Trying alternative method...');
+    }
+
+    if (alsaId !== null) {
+      // Wait a moment for the source to be ready
+      await delay(1000, undefined, { signal });
+      try {
+        const loopbackId = await this.loadLoopback(alsaSource);
+        this.pulseLog.info(`Loopback created (module ID: ${loopbackId}) - routing ${alsaSource} to ${this.sinkName}`);
+      } catch (e) {
+        this.pulseLog.warn(`Could not create loopback from ALSA source: ${describe(e)}`);
       }
+      return;
+    }
 
-      // Track if we've already retried
-      let hasRetried = false;
-      
-      this.ffmpegProcess.on('close', (code: number) => {
-        console.log(`FFmpeg process exited with code ${code}`);
-        if (code !== 0 && code !== null) {
-          // If audio capture fails and we haven't retried, try with silent audio
-          if (useVirtualDisplay && !hasRetried) {
-            hasRetried = true;
-            console.log('Audio capture failed, retrying with silent audio...');
-            this.retryWithSilentAudio(rtmpsUrl, captureWidth, captureHeight, streamWidth, streamHeight, fps, useVirtualDisplay, lightweight)
-              .then(resolve)
-              .catch((retryError) => {
-                reject(new Error(`FFmpeg exited with code ${code}. Retry also failed: ${retryError.message}`));
-              });
-          } else {
-            reject(new Error(`FFmpeg exited with code ${code}`));
-          }
-        }
-      });
+    // Alternative: loop every monitor (except the stream sinks) and the default source into our sink
+    let candidates: string[];
+    try {
+      const sources = (await this.pulse.listSources()).map((source) => source.name);
+      if (sources.length === 0) {
+        this.pulseLog.warn('No sources available in PulseAudio');
+        return;
+      }
+      this.pulseLog.info(`Available sources: ${sources.join(', ')}`);
 
-      this.ffmpegProcess.on('error', (error: Error) => {
-        reject(error);
-      });
+      const defaultSource = (await this.pulse.info()).defaultSource;
+      candidates = sources.filter((source) => source.endsWith('.monitor'));
+      if (defaultSource && !candidates.includes(defaultSource)) {
+        candidates.push(defaultSource);
+      }
+    } catch (e) {
+      this.pulseLog.warn(`Could not list sources for loopback: ${describe(e)}`);
+      return;
+    }
+    for (const source of candidates.filter((candidate) => !candidate.startsWith(DEFAULT_SINK_NAME))) {
+      if (signal.aborted) {
+        return;
+      }
+      try {
+        const loopbackId = await this.loadLoopback(source);
+        this.pulseLog.info(`Loopback created (module ID: ${loopbackId}) - routing ${source} to ${this.sinkName}`);
+      } catch (e) {
+        this.pulseLog.warn(`Could not create loopback from ${source}: ${describe(e)}`);
+      }
+    }
+  }
 
-      setTimeout(() => {
-        if (this.ffmpegProcess && !this.ffmpegProcess.killed) {
-          resolve();
-        }
-      }, 2000);
-    });
+  private loadLoopback(source: string): Promise<number> {
+    return this.pulse.loadModule('module-loopback', { source, sink: this.sinkName, latency_msec: 1 });
   }
 
   /**
-   * Start FFmpeg process to capture screen/audio and stream to RTMPS
+   * Start FFmpeg under a supervisor that restarts it when it exits
+   * With several destinations (or a recording), one encoder writes MPEG-TS to stdout and each
+   * destination gets its own copy-only relay process, so a bad ingest only takes down its own relay.
+   * The recorder is one more consumer of the same pipe.
    */
   private async startFFmpegStream(
-    rtmpsUrl: string,
+    targets: OutputTarget[],
     captureWidth: number,
     captureHeight: number,
     streamWidth: number,
     streamHeight: number,
+    scaling: { scaleMode: ScaleMode; padColor?: string },
     fps: number,
-    audioDevice?: string,
-    videoDevice?: string,
-    useVirtualDisplay: boolean = false,
-    lightweight: boolean = false
+    audioDevice: string | undefined,
+    videoDevice: string | undefined,
+    useVirtualDisplay: boolean,
+    encoder: ResolvedEncoder,
+    supervision: Pick<SupervisorOptions, 'maxRestarts' | 'initialDelay' | 'maxDelay' | 'logger'> = {},
+    record?: RecordingOptions,
+    previewDir?: string,
+    audioMix?: { sources: AudioSource[]; inputs: string[][]; pageVolume?: number }
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Detect platform for screen capture
-      const platform = process.platform;
-      let inputOptions: string[] = [];
-      let videoInput = '';
-      let audioInput = '';
-
-      if (platform === 'darwin') {
-        // macOS - use avfoundation
-        // List available devices: ffmpeg -f avfoundation -list_devices true -i ""
-        videoInput = videoDevice || '1'; // Default screen capture
-        audioInput = audioDevice || ':0'; // Default system audio
-        inputOptions = [
-          '-f', 'avfoundation',
-          '-framerate', fps.toString(),
-          '-video_size', `${captureWidth}x${captureHeight}`,
-          '-i', `${videoInput}:${audioInput}`,
-        ];
-      } else if (platform === 'linux') {
-        // Linux - use x11grab for video
-        // Capture from 0,0 at capture resolution (e.g., 1080p)
-        const display = process.env.DISPLAY || ':0.0';
-        videoInput = `${display}+0,0`;
-        inputOptions = [
-          '-f', 'x11grab',
-          '-framerate', fps.toString(),
-          '-video_size', `${captureWidth}x${captureHeight}`,
-          '-i', videoInput,
-        ];
+    const platform = process.platform;
+    if (platform !== 'darwin' && platform !== 'linux' && platform !== 'win32') {
+      throw new Error(`Unsupported platform: ${platform}`);
+    }
 
-        // For Railway/headless: try to capture audio from PulseAudio
-        if (useVirtualDisplay) {
-          // Try to use PulseAudio to capture browser audio
-          // Since browser may not create sink input, try to capture from default sink monitor
-          // or use combine-sink to route all audio to stream_sink
-          const { execSync, exec } = require('child_process');
-          
-          // Strategy: Since browser may not create sink input, we'll use module-null-sink differently
-          // Create a loopback from all possible sources to stream_sink
-          try {
-            const pulseEnv = this.getPulseEnv();
-            
-            // Get all available sinks
-            const allSinks = execSync('pactl list sinks short | cut -f2', { 
-              env: pulseEnv,
-              encoding: 'utf8' 
-            }).trim().split('\n');
-            console.log(`Available sinks: ${allSinks.join(', ')}`);
-            
-            // Get default sink
-            let defaultSink = 'auto_null';
-            try {
-              defaultSink = execSync('pactl info | grep "Default Sink" | cut -d: -f2 | xargs', { 
-                env: pulseEnv,
-                encoding: 'utf8' 
-              }).trim();
-              console.log(`Default sink: ${defaultSink}`);
-            } catch (e) {
-              console.warn('Could not get default sink, using auto_null');
-            }
-            
-            // Since stream_sink is the only sink, browser audio must be going elsewhere (likely ALSA)
-            // Try to create an ALSA source to capture system audio and route it to stream_sink
-            console.log('Browser may be using ALSA directly. Creating ALSA source...');
-            
-            // First, verify PulseAudio is running and accessible
-            try {
-              execSync('pulseaudio --check', { 
-                env: pulseEnv,
-                stdio: 'ignore' 
-              });
-              console.log('✓ PulseAudio is running');
-            } catch (e) {
-              console.error('✗ PulseAudio is not running! Cannot create ALSA source.');
-              console.warn('Audio capture will likely fail');
-            }
-            
-            // Wait a bit for PulseAudio to be fully ready
-            setTimeout(() => {
-              try {
-                // First, try to create an ALSA source from the default ALSA device
-                // This will capture audio from ALSA and make it available in PulseAudio
-                exec('pactl load-module module-alsa-source device=hw:0,0 source_name=alsa_source', { 
-                  env: pulseEnv 
-                }, (alsaError: any, alsaStdout: any) => {
-                  if (!alsaError && alsaStdout) {
-                    const alsaId = alsaStdout.toString().trim();
-                    console.log(`✓ ALSA source created (module ID: ${alsaId}) - capturing from hw:0,0`);
-                    
-                    // Wait a moment for the source to be ready
-                    setTimeout(() => {
-                      // Route the ALSA source to stream_sink via loopback
-                      exec('pactl load-module module-loopback source=alsa_source sink=stream_sink latency_msec=1', { 
-                        env: pulseEnv 
-                      }, (loopbackError: any, loopbackStdout: any) => {
-                        if (!loopbackError && loopbackStdout) {
-                          const loopbackId = loopbackStdout.toString().trim();
-                          console.log(`✓ Loopback created (module ID: ${loopbackId}) - routing alsa_source to stream_sink`);
-                        } else {
-                          console.warn('Could not create loopback from ALSA source');
-                        }
-                      });
-                    }, 1000);
-                  } else {
-                    console.warn('Could not create ALSA source:', alsaError?.message || 'Unknown error');
-                    console.warn('Trying alternative method...');
-                    
-                    // Alternative: Try to create loopback from all available sources
-                    try {
-                      const allSources = execSync('pactl list sources short 2>/dev/null | cut -f2', { 
-                        env: pulseEnv,
-                        encoding: 'utf8' 
-                      }).trim().split('\n').filter((s: string) => s);
-                      if (allSources.length > 0) {
-                        console.log(`Available sources: ${allSources.join(', ')}`);
-                        
-                        // Try to create loopback from each source to stream_sink
-                        allSources.forEach((source: string) => {
-                          if (source.includes('.monitor') && !source.includes('stream_sink')) {
-                            exec(`pactl load-module module-loopback source=${source} sink=stream_sink latency_msec=1`, { 
-                              env: pulseEnv 
-                            }, (loopbackError: any, loopbackStdout: any) => {
-                              if (!loopbackError && loopbackStdout) {
-                                const loopbackId = loopbackStdout.toString().trim();
-                                console.log(`Loopback created (module ID: ${loopbackId}) - routing ${source} to stream_sink`);
-                              }
-                            });
-                          }
-                        });
-                        
-                        // Also try to create loopback from default source
-                        try {
-                          const defaultSource = execSync('pactl info 2>/dev/null | grep "Default Source" | cut -d: -f2 | xargs', { 
-                            env: pulseEnv,
-                            encoding: 'utf8' 
-                          }).trim();
-                          if (defaultSource && !defaultSource.includes('stream_sink')) {
-                            exec(`pactl load-module module-loopback source=${defaultSource} sink=stream_sink latency_msec=1`, { 
-                              env: pulseEnv 
-                            }, (loopbackError: any, loopbackStdout: any) => {
-                              if (!loopbackError && loopbackStdout) {
-                                const loopbackId = loopbackStdout.toString().trim();
-                                console.log(`Loopback from default source created (module ID: ${loopbackId}) - routing ${defaultSource} to stream_sink`);
-                              }
-                            });
-                          }
-                        } catch (e) {
-                          console.warn('Could not get default source');
-                        }
-                      } else {
-                        console.warn('No sources available in PulseAudio');
-                      }
-                    } catch (e) {
-                      console.warn('Could not list sources for loopback:', e);
-                    }
-                  }
-                });
-              } catch (e) {
-                console.warn('Could not setup ALSA source:', e);
-              }
-            }, 2000); // Wait 2 seconds for PulseAudio to be ready
-          } catch (e) {
-            console.warn('Could not setup audio routing:', e);
+    const captureAudioFromSink = platform === 'linux' && useVirtualDisplay && !this.browserAudio;
+    if (captureAudioFromSink) {
+      // In the background, so FFmpeg doesn't wait for it; stopStream waits for it instead
+      const abort = new AbortController();
+      this.audioRouting = {
+        abort,
+        done: this.setupAudioRouting(abort.signal).catch((error) => {
+          if (!abort.signal.aborted) {
+            this.pulseLog.warn('Audio routing failed', { error });
           }
-          
-          // Try to use PulseAudio first, but fallback to silent audio if PulseAudio is not accessible
-          // In containers, ALSA hardware devices usually don't exist, so we skip ALSA
-          let usePulseAudio = false;
-          try {
-            const pulseEnv = this.getPulseEnv();
-            execSync('pactl info > /dev/null 2>&1', { 
-              env: pulseEnv,
-              stdio: 'ignore',
-              timeout: 1000
-            });
-            // Check if stream_sink.monitor exists
-            try {
-              execSync('pactl list sources | grep -q "stream_sink.monitor"', { 
-                env: pulseEnv,
-                stdio: 'ignore',
-                timeout: 1000
-              });
-              usePulseAudio = true;
-              console.log('✓ PulseAudio is accessible and stream_sink.monitor exists');
-            } catch (e) {
-              console.warn('stream_sink.monitor not found, will use silent audio');
-            }
-          } catch (e) {
-            console.warn('PulseAudio not accessible, will use silent audio');
-          }
-          
-          if (usePulseAudio) {
-            const audioSource = audioDevice || 'stream_sink.monitor';
-            console.log(`Capturing audio from PulseAudio: ${audioSource}`);
-            inputOptions.push(
-              '-f', 'pulse',
-              '-ac', '2',
-              '-ar', '44100',
-              '-i', audioSource
-            );
-          } else {
-            // Use silent audio - ALSA hardware devices don't exist in containers
-            console.log('⚠ Using silent audio (no audio capture available)');
-            console.log('⚠ PulseAudio is not accessible in this container environment.');
-            console.log('⚠ Audio from the browser will not be captured.');
-            console.log('⚠ This is a known limitation in Docker/Railway containers.');
-            inputOptions.push(
-              '-f', 'lavfi',
-              '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100',
-            );
-          }
-        } else {
-          // Try to use pulse audio if available
-          inputOptions.push(
-            '-f', 'pulse',
-            '-ac', '2',
-            '-i', audioDevice || 'default'
-          );
-        }
-      } else if (platform === 'win32') {
-        // Windows - use gdigrab for video and dshow for audio
-        inputOptions = [
-          '-f', 'gdigrab',
-          '-framerate', fps.toString(),
-          '-video_size', `${captureWidth}x${captureHeight}`,
-          '-i', 'desktop',
-          '-f', 'dshow',
-          '-i', audioDevice || 'audio="Stereo Mix (Realtek Audio)"',
-        ];
-      } else {
-        reject(new Error(`Unsupported platform: ${platform}`));
-        return;
-      }
+        }),
+      };
+      await this.checkSinkMonitor();
+    }
 
-      // RTMPS output options - optimized for lightweight mode
-      const preset = lightweight ? 'ultrafast' : 'veryfast';
-      const crf = lightweight ? '28' : '23'; // Higher CRF = lower quality, lower CPU
-      const maxrate = lightweight ? '1500k' : '4000k';
-      const bufsize = lightweight ? '3000k' : '8000k';
-      const audioBitrate = lightweight ? '64k' : '128k';
-      const audioSampleRate = lightweight ? '22050' : '44100';
-
-      const outputOptions = [
-        '-c:v', 'libx264',
-        '-preset', preset,
-        '-tune', 'zerolatency',
-        '-crf', crf,
-        '-maxrate', maxrate,
-        '-bufsize', bufsize,
-        '-pix_fmt', 'yuv420p',
-        '-g', (2 * fps).toString(), // GOP size
-        '-threads', lightweight ? '2' : '0', // Limit threads in lightweight mode
-        '-c:a', 'aac',
-        '-b:a', audioBitrate,
-        '-ar', audioSampleRate,
-        '-ac', '2',
-        '-f', 'flv',
-        rtmpsUrl,
-      ];
+    // Pass PulseAudio environment variables to FFmpeg
+    const ffmpegEnv = {
+      ...process.env,
+      ...this.getPulseEnv(),
+    };
 
-      // Build FFmpeg command
-      const ffmpegArgs = [...inputOptions, ...outputOptions];
+    const fanOut = targets.length > 1 || record !== undefined;
+    const outputArgs = fanOut ? ['-f', 'mpegts', 'pipe:1'] : targets[0].outputArgs;
 
-      console.log('Starting FFmpeg with args:', ffmpegArgs.join(' '));
+    if (fanOut) {
+      this.relays = targets.map((target, index) => this.createRelay(target, index, encoder.settings, supervision));
+    }
+    if (record) {
+      this.recorder = this.createRecorder(record, supervision);
+    }
 
-      // Spawn FFmpeg process
-      // Pass PulseAudio environment variables to FFmpeg
-      const ffmpegEnv = {
-        ...process.env,
-        ...this.getPulseEnv(),
-      };
-      
-      this.ffmpegProcess = spawn('ffmpeg', ffmpegArgs, {
-        env: ffmpegEnv
-      });
+    this.supervisor = new FFmpegSupervisor({
+      ...supervision,
+      env: ffmpegEnv,
+      // Browser audio is written to pipe:4
+      inputPipes: this.browserAudio ? 1 : 0,
+      buildArgs: (silentAudio) => {
+        const captureInputs = this.buildCaptureInputs(silentAudio, captureWidth, captureHeight, fps, audioDevice, videoDevice, useVirtualDisplay);
+        // The page audio is always on the last capture input (its only input on macOS)
+        const captureCount = captureInputs.filter((arg) => arg === '-i').length;
+        const mix = audioMix
+          ? buildAudioMix({
+              sources: audioMix.sources,
+              sourceInputs: audioMix.inputs,
+              pageAudio: `${captureCount - 1}:a`,
+              firstInput: captureCount,
+              pageVolume: audioMix.pageVolume,
+              outputs: previewDir ? 2 : 1,
+            })
+          : undefined;
+        // Rebuilt on every (re)start, so overlay changes that need a restart are picked up here
+        const overlayFilters = this.overlayController?.filters() ?? [];
+        return [
+          ...buildFFmpegArgs({
+            inputArgs: [...captureInputs, ...(mix?.inputArgs ?? [])],
+            mapArgs: mix?.outputMaps[0],
+            videoFilters: overlayFilters,
+            settings: encoder.settings,
+            fps,
+            captureWidth,
+            captureHeight,
+            streamWidth,
+            streamHeight,
+            ...scaling,
+            // Read on every (re)start, so a moved capture element is picked up here
+            crop: this.captureCrop ?? undefined,
+            outputArgs,
+          }),
+          // Second output of the same FFmpeg process, from the same capture
+          ...(previewDir
+            ? buildPreviewArgs(previewDir, fps, mix?.outputMaps[1], [
+                ...frameFilters(captureWidth, captureHeight, streamWidth, streamHeight, { ...scaling, crop: this.captureCrop ?? undefined }),
+                ...overlayFilters,
+              ])
+            : []),
+        ];
+      },
+      // Silent-audio fallback only makes sense where we capture from our own sink
+      probeAudio: captureAudioFromSink ? () => this.checkSinkMonitor() : undefined,
+      onStdout: fanOut
+        ? (chunk) => {
+            this.relays.forEach((relay) => relay.write(chunk));
+            this.recorder?.write(chunk);
+          }
+        : undefined,
+    });
 
-      if (this.ffmpegProcess.stdout) {
-        this.ffmpegProcess.stdout.on('data', (data: Buffer) => {
-          console.log(`FFmpeg stdout: ${data.toString()}`);
-        });
-      }
+    // Re-emit lifecycle events for monitoring (prefixed with "ffmpeg:")
+    for (const event of SUPERVISOR_EVENTS) {
+      this.supervisor.on(event, (payload) => this.emit(`ffmpeg:${event}`, payload));
+    }
 
-      if (this.ffmpegProcess.stderr) {
-        this.ffmpegProcess.stderr.on('data', (data: Buffer) => {
-          const output = data.toString();
-          // FFmpeg outputs to stderr by default
-          if (output.includes('error') || output.includes('Error')) {
-            console.error(`FFmpeg error: ${output}`);
-          } else {
-            console.log(`FFmpeg: ${output}`);
-          }
-        });
-      }
+    if (captureAudioFromSink) {
+      // Look again while the restart backoff runs, so the next run's inputs match the sink's state
+      this.supervisor.on('exit', () => {
+        this.checkSinkMonitor().catch(() => {});
+      });
+    }
 
-      this.ffmpegProcess.on('close', (code: number) => {
-        console.log(`FFmpeg process exited with code ${code}`);
-        if (code !== 0 && code !== null) {
-          // Check if it's an audio error and we're using virtual display
-          // If so, retry with silent audio
-          if (useVirtualDisplay) {
-            console.log('FFmpeg failed, may be audio issue. Retrying with silent audio...');
-            this.retryWithSilentAudio(rtmpsUrl, captureWidth, captureHeight, streamWidth, streamHeight, fps, useVirtualDisplay, lightweight)
-              .then(resolve)
-              .catch((retryError) => {
-                reject(new Error(`FFmpeg exited with code ${code}. Retry also failed: ${retryError.message}`));
-              });
-          } else {
-            reject(new Error(`FFmpeg exited with code ${code}`));
-          }
+    if (fanOut) {
+      // A restarted encoder begins a new MPEG-TS stream with fresh timestamps - reconnect the consumers to it
+      let firstStart = true;
+      this.supervisor.on('start', () => {
+        if (!firstStart) {
+          this.relays.forEach((relay) => relay.restartNow());
+          this.recorder?.restartNow();
         }
+        firstStart = false;
       });
+      await Promise.all([
+        ...this.relays.map((relay) => relay.start()),
+        ...(this.recorder ? [this.recorder.start()] : []),
+      ]);
+    }
 
-      this.ffmpegProcess.on('error', (error: Error) => {
-        console.error('FFmpeg process error:', error);
-        reject(error);
-      });
+    await this.supervisor.start();
+  }
 
-      // Wait a moment to see if FFmpeg starts successfully
-      setTimeout(() => {
-        if (this.ffmpegProcess && !this.ffmpegProcess.killed) {
-          resolve();
-        }
-      }, 2000);
+  /**
+   * Create a copy-only FFmpeg process that pushes the shared MPEG-TS encode to one destination
+   */
+  private createRelay(
+    target: OutputTarget,
+    index: number,
+    settings: EncoderSettings,
+    supervision: Pick<SupervisorOptions, 'maxRestarts' | 'initialDelay' | 'maxDelay' | 'logger'>
+  ): FFmpegSupervisor {
+    const relay = new FFmpegSupervisor({
+      ...supervision,
+      name: `FFmpeg[output ${index + 1}]`,
+      env: process.env,
+      buildArgs: () => relayArgs(target, settings),
+    });
+
+    for (const event of SUPERVISOR_EVENTS) {
+      relay.on(event, (payload) => this.emit(`output:${event}`, { output: index, ...payload }));
+    }
+
+    relay.on('giveup', () => {
+      this.ffmpegLog.error(`Output ${index + 1} gave up; other outputs keep streaming`);
+      this.stopIfAllOutputsFailed();
+    });
+
+    return relay;
+  }
+
+  /**
+   * Create the recorder that writes the shared MPEG-TS encode to rotating files
+   */
+  private createRecorder(
+    record: RecordingOptions,
+    supervision: Pick<SupervisorOptions, 'maxRestarts' | 'initialDelay' | 'maxDelay' | 'logger'>
+  ): Recorder {
+    const recorder = new Recorder(record, supervision);
+    for (const event of [...SUPERVISOR_EVENTS, 'rotate', 'prune']) {
+      recorder.on(event, (payload) => this.emit(`recording:${event}`, payload));
+    }
+    recorder.on('giveup', () => {
+      this.ffmpegLog.error('Recording gave up');
+      this.stopIfAllOutputsFailed();
     });
+    return recorder;
+  }
+
+  /**
+   * Stop the encoder once no relay or recorder is left to consume it
+   */
+  private stopIfAllOutputsFailed(): void {
+    const recorderFailed = !this.recorder || this.recorder.status.gaveUp;
+    if (this.relays.every((r) => r.status.gaveUp) && recorderFailed) {
+      this.ffmpegLog.error('All outputs failed, stopping encoder');
+      this.supervisor?.stop();
+      this.emit('ffmpeg:giveup', { reason: 'all outputs failed' });
+    }
+  }
+
+  /**
+   * Per-destination relay state when simulcasting (empty for a single destination)
+   */
+  get outputStatus() {
+    return this.relays.map((relay, index) => ({ output: index, ...relay.status }));
+  }
+
+  /**
+   * Empty (or create) the preview directory so old segments are never served
+   */
+  private preparePreviewDir(): string {
+    rmSync(this.previewDir, { recursive: true, force: true });
+    mkdirSync(this.previewDir, { recursive: true });
+    this.previewActive = true;
+    return this.previewDir;
+  }
+
+  /**
+   * Directory holding the HLS preview, or null when the stream has no preview
+   */
+  get previewDirectory(): string | null {
+    return this.previewActive ? this.previewDir : null;
+  }
+
+  /**
+   * Recorder state (current file, file count, bytes on disk), or null when not recording
+   */
+  get recordingStatus() {
+    return this.recorder ? this.recorder.status : null;
+  }
+
+  /**
+   * FFmpeg supervision state (restarts, silent-audio fallback, last exit)
+   */
+  get ffmpegStatus() {
+    return this.supervisor ? this.supervisor.status : null;
+  }
+
+  /**
+   * Current audio levels on the sink monitor, or null when not metering
+   */
+  get audioLevels() {
+    return this.audioMeter ? this.audioMeter.levels : null;
+  }
+
+  /**
+   * Overlays of the running stream, with their ids and enabled state
+   */
+  get overlays(): Overlay[] {
+    return this.overlayController ? this.overlayController.list : [];
+  }
+
+  /**
+   * Change an overlay while streaming
+   * Text changes show up within a frame; anything else restarts FFmpeg to rebuild the filters.
+   */
+  updateOverlay(id: string, patch: Record<string, unknown>): Overlay {
+    if (!this.overlayController) {
+      throw new OverlayError('Stream is not running');
+    }
+    const { overlay, restart } = this.overlayController.update(id, patch);
+    if (restart && this.supervisor) {
+      this.log.info(`Overlay ${id} changed, restarting FFmpeg to apply it`);
+      this.supervisor.restartNow();
+    }
+    this.emit('overlay:update', { id, restart });
+    return overlay;
+  }
+
+  /**
+   * Where the playlist is (page on air and when it changes), or null without a playlist
+   */
+  get playlistStatus() {
+    return this.rotator ? this.rotator.status : null;
+  }
+
+  /**
+   * Whether the fallback is on screen, why and since when; null without fallback content
+   */
+  get fallbackStatus() {
+    return this.fallback ? this.fallback.status : null;
+  }
+
+  /**
+   * Which part of the page is streamed (selector, region in CSS pixels, crop in device pixels), or null for all of it
+   */
+  get captureStatus() {
+    if (!this.regionTracker && !this.captureCrop) {
+      return null;
+    }
+    return {
+      selector: this.regionTracker?.status.selector ?? null,
+      found: this.regionTracker ? this.regionTracker.status.found : true,
+      crop: this.captureCrop,
+    };
+  }
+
+  /**
+   * Screencast state (frames received, last frame), or null with the screen backend
+   */
+  get screencastStatus() {
+    return this.screencast ? this.screencast.status : null;
+  }
+
+  /**
+   * In-page audio capture state (samples received, muted), or null with the pulse backend
+   */
+  get browserAudioStatus() {
+    return this.browserAudio ? this.browserAudio.status : null;
+  }
+
+  /**
+   * Number of times the watchdog relaunched the browser
+   */
+  get browserRestartCount(): number {
+    return this.browserRestarts;
   }
 
   /**
    * Stop the stream
    */
   async stopStream(): Promise<void> {
-    console.log('Stopping stream...');
+    this.log.info('Stopping stream...');
 
-    if (this.ffmpegProcess) {
-      this.ffmpegProcess.kill('SIGTERM');
-      this.ffmpegProcess = null;
+    if (this.audioMeter) {
+      this.audioMeter.stop();
+      this.audioMeter.removeAllListeners();
+      this.audioMeter = null;
     }
 
+    if (this.screencast) {
+      await this.screencast.stop();
+      this.screencast = null;
+    }
+
+    if (this.browserAudio) {
+      this.browserAudio.stop();
+      this.browserAudio = null;
+    }
+
+    if (this.regionTracker) {
+      this.regionTracker.stop();
+      this.regionTracker.removeAllListeners();
+      this.regionTracker = null;
+    }
+    this.captureCrop = null;
+
+    if (this.rotator) {
+      this.rotator.stop();
+      this.rotator.removeAllListeners();
+      this.rotator = null;
+    }
+
+    if (this.fallback) {
+      this.fallback.stop();
+      this.fallback.removeAllListeners();
+      this.fallback = null;
+    }
+
+    if (this.watchdog) {
+      this.watchdog.stop();
+      this.watchdog.removeAllListeners();
+      this.watchdog = null;
+    }
+    this.session = null;
+
+    if (this.supervisor) {
+      this.supervisor.stop();
+      this.supervisor.removeAllListeners();
+      this.supervisor = null;
+    }
+
+    for (const relay of this.relays) {
+      relay.stop();
+      relay.removeAllListeners();
+    }
+    this.relays = [];
+
+    if (this.recorder) {
+      this.recorder.stop();
+      this.recorder.removeAllListeners();
+      this.recorder = null;
+    }
+
+    if (this.previewActive) {
+      rmSync(this.previewDir, { recursive: true, force: true });
+      this.previewActive = false;
+    }
+    // Generated playlists for extra audio sources and overlay text files
+    rmSync(this.audioDir, { recursive: true, force: true });
+    rmSync(this.overlayDir, { recursive: true, force: true });
+    rmSync(this.fallbackDir, { recursive: true, force: true });
+    this.overlayController = null;
+
     if (this.browser) {
       await this.browser.close();
       this.browser = null;
@@ -1612,17 +1787,21 @@ class WebStreamer {
       this.wmProcess = null;
     }
 
-    if (this.pulseAudioProcess) {
-      this.pulseAudioProcess.kill('SIGTERM');
-      this.pulseAudioProcess = null;
+    // Remove only the modules this stream loaded; the PulseAudio daemon is shared with other streams.
+    // Routing still in progress is cancelled first, so nothing gets loaded after the cleanup.
+    if (this.audioRouting) {
+      this.audioRouting.abort.abort();
+      await this.audioRouting.done;
+      this.audioRouting = null;
     }
+    await this.pulse.unloadAll();
 
     if (this.xvfbProcess) {
       this.xvfbProcess.kill('SIGTERM');
       this.xvfbProcess = null;
     }
 
-    console.log('Stream stopped.');
+    this.log.info('Stream stopped.');
   }
 
   /**
@@ -1652,34 +1831,152 @@ class WebStreamer {
   }
 }
 
+const log = createLogger('main');
+
 // Main execution
 async function main() {
   const args = process.argv.slice(2);
 
+  if (args.includes('--print-schema')) {
+    console.log(JSON.stringify(configSchema(), null, 2));
+    process.exit(0);
+  }
+
+  // Config file, then environment, then command line; everything is checked before anything starts
+  let loaded: ReturnType<typeof loadSettings>;
+  try {
+    loaded = loadSettings(args);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      log.error(`Invalid configuration: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+  const { settings, commands } = loaded;
+
+  // Logging is set up first so everything after it uses the chosen level and format
+  configureLogging({ level: settings.logLevel, format: settings.logFormat });
+
+  if (commands.has('--print-config')) {
+    console.log(JSON.stringify(describeSettings(settings), null, 2));
+    if (!isStreamComplete(settings.stream) && settings.controlPort === undefined) {
+      log.warn('Nothing would start: set a webpage URL and an output URL (or a recording path), or a control port');
+    }
+    process.exit(0);
+  }
+
   // Check for list-devices flag
-  if (args.includes('--list-devices')) {
+  if (commands.has('--list-devices')) {
     await WebStreamer.listDevices();
     process.exit(0);
   }
 
-  // Support environment variables for Railway deployment
-  const url = process.env.WEBPAGE_URL || args[0];
-  const rtmpsUrl = process.env.RTMPS_URL || args[1];
+  const { stream, controlPort, schedule } = settings;
+  const preview = stream.preview === true;
+
+  // Every stream (startup or API) runs through the manager so each gets its own display and sink
+  const manager = new StreamManager({
+    createStreamer: (options) => new WebStreamer(options),
+    maxStreams: settings.maxStreams,
+  });
+
+  const controlServer = controlPort !== undefined
+    ? new ControlServer({
+        port: controlPort,
+        token: settings.controlToken,
+        manager,
+      })
+    : null;
+
+  if (preview && !controlServer) {
+    log.error('--preview is served by the control API; set --control-port (or CONTROL_PORT) as well');
+    process.exit(1);
+  }
+
+  // Set when streaming on a schedule
+  let scheduler: StreamScheduler | null = null;
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string) => {
+    log.info(`Received ${signal}, shutting down...`);
+    scheduler?.stop();
+    if (controlServer) {
+      await controlServer.stop();
+    }
+    await manager.stopAll();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  if (!isStreamComplete(stream) && controlServer) {
+    // No stream configured at startup - wait for POST /streams
+    await controlServer.start();
+    log.info('No stream configured. Waiting for requests on the control API...');
+    return;
+  }
 
-  if (!url || !rtmpsUrl) {
+  if (!isStreamComplete(stream)) {
     console.log('Usage: npm start <webpage-url> <rtmps-url> [options]');
+    console.log('       npm start <webpage-url> --record <path> [options]');
+    console.log('       npm start --config <file> [options]');
+    console.log('');
+    console.log('Settings come from a config file, environment variables and flags; flags win over');
+    console.log('environment variables, which win over the file.');
     console.log('');
-    console.log('Or set environment variables:');
+    console.log('Environment variables:');
+    console.log('  CONFIG_FILE - Config file (JSON or YAML), see config.schema.json');
     console.log('  WEBPAGE_URL - The webpage URL to stream');
-    console.log('  RTMPS_URL - The RTMPS streaming endpoint');
+    console.log('  RTMPS_URL - Output URL(s): rtmp(s)://, srt://, udp:// or a local .m3u8 path');
+    console.log('              (comma-separated to simulcast)');
+    console.log('  CONTROL_PORT - Start the HTTP control API on this port');
+    console.log('  CONTROL_TOKEN - Bearer token required by the control API');
+    console.log('  MAX_STREAMS - Maximum concurrent streams (default: 4)');
+    console.log('  ACTIONS_FILE - Action script (JSON or YAML) run after the page loads');
+    console.log('  AUDIO_SOURCES_FILE - Extra audio (JSON or YAML) mixed under the page audio');
+    console.log('  OVERLAYS_FILE - Overlays (JSON or YAML) drawn on top of the page');
+    console.log('  PLAYLIST_FILE - Pages (JSON or YAML) to rotate through instead of one URL');
+    console.log('  SCHEDULE_FILE - Windows (JSON or YAML) during which the stream runs');
+    console.log('  FALLBACK_PATH - Image, HTML file or video shown while the page is down');
+    console.log('  RECORD_PATH - Record to this directory (or file prefix) on disk');
+    console.log('  PREVIEW - Set to true to write an HLS preview (needs the control API)');
+    console.log('  LOG_LEVEL - trace, debug, info (default), warn or error');
+    console.log('  LOG_FORMAT - json (default when not on a terminal) or text');
     console.log('');
     console.log('Options:');
+    console.log('  --config <file>      Config file (JSON or YAML) with any of the settings below');
+    console.log('  --print-config       Print the merged, checked settings and exit');
+    console.log('  --print-schema       Print the JSON schema of the config file and exit');
     console.log('  --width <number>     Browser window width (default: 1920)');
     console.log('  --height <number>    Browser window height (default: 1080)');
     console.log('  --stream-width <n>   Stream output width (default: same as browser width)');
     console.log('  --stream-height <n>  Stream output height (default: same as browser height)');
-    console.log('  --fps <number>       Frame rate (default: 30, lightweight default: 1)');
-    console.log('  --lightweight        Enable lightweight mode (optimized encoding, 1fps default)');
+    console.log('  --scale-mode <m>     stretch (default), letterbox or crop when the aspect ratio differs');
+    console.log('  --pad-color <color>  Letterbox bar color (default: black)');
+    console.log('  --device-scale-factor <n>  Render the page at this pixel ratio (e.g. 2 for HiDPI)');
+    console.log('  --capture-backend <b>      screen (default) or screencast (headless, no X server)');
+    console.log('  --audio-backend <b>        pulse (default) or browser (WebAudio capture, no PulseAudio)');
+    console.log('  --capture-selector <s>     Stream only this element; the capture follows it');
+    console.log('  --capture-region <x,y,w,h> Stream only this rectangle of the page (CSS pixels)');
+    console.log('  --capture-track-interval <s>  Seconds between checks of the element (default: 5, 0 = off)');
+    console.log('  --fps <number>       Frame rate (default: 30, or the encoder profile\'s rate)');
+    console.log('  --lightweight        Enable lightweight mode (same as --profile lightweight)');
+    console.log('  --profile <name>     Encoder profile: standard, lightweight, low-bandwidth, 720p30,');
+    console.log('                       1080p60-high, static-dashboard (default: standard)');
+    console.log('  --video-codec <c>    libx264 (default), libx265, libsvtav1 or libvpx-vp9');
+    console.log('  --audio-codec <c>    aac (default), opus or mp3');
+    console.log('  --preset <p>         x264 preset override (e.g. ultrafast, veryfast)');
+    console.log('  --tune <t>           x264 tune override (e.g. zerolatency, stillimage)');
+    console.log('  --crf <n>            CRF override');
+    console.log('  --maxrate <rate>     Max video bitrate override (e.g. 2500k)');
+    console.log('  --bufsize <size>     Rate control buffer override (e.g. 5000k)');
+    console.log('  --threads <n>        Encoder threads override (0 = auto)');
+    console.log('  --audio-bitrate <r>  Audio bitrate override (e.g. 128k)');
+    console.log('  --audio-sample-rate <hz>  Audio sample rate override (e.g. 48000)');
+    console.log('  --actions <file>     Action script (JSON or YAML) run after the page loads');
+    console.log('  --autoplay <list>    Autoplay strategies to try, comma-separated, or "none"');
+    console.log('                       (default: media-play,resume-audio-context,click-media-control)');
     console.log('  --click-selector <s> CSS selector to click (e.g., "button.play")');
     console.log('  --click-x <number>   X coordinate to click (requires --click-y)');
     console.log('  --click-y <number>   Y coordinate to click (requires --click-x)');
@@ -1687,86 +1984,115 @@ async function main() {
     console.log('  --audio-device <id>  Audio device ID (macOS only)');
     console.log('  --video-device <id>  Video device ID (macOS only)');
     console.log('  --list-devices       List available devices (macOS only)');
+    console.log('  --control-port <n>   Start the HTTP control API on this port');
+    console.log('  --max-restarts <n>   FFmpeg restarts before giving up (default: 10, -1 = unlimited)');
+    console.log('  --preview            Write a low-bitrate HLS preview, played at /streams/<id>/preview');
+    console.log('  --record <path>      Record to a directory, or a file prefix like /data/show.mkv');
+    console.log('  --record-format <f>  mp4 (default) or mkv');
+    console.log('  --record-segment-time <s>  Start a new file every N seconds (default: 600)');
+    console.log('  --record-segment-size <n>  Also start a new file at this size (e.g. 2G)');
+    console.log('  --record-max-files <n>     Delete the oldest files beyond this count');
+    console.log('  --record-max-age <s>       Delete files older than this many seconds');
+    console.log('  --no-watchdog        Disable browser crash/hang recovery');
+    console.log('  --audio-gate-timeout <ms>  Wait this long for sound before streaming (default: 30000, 0 = off)');
+    console.log('  --silence-threshold <dB>   Level counted as silence (default: -50 dBFS)');
+    console.log('  --silence-alert-after <s>  Alert after this much silence mid-stream (default: 30, 0 = off)');
+    console.log('  --audio-sources <file>     Extra audio (JSON or YAML): music beds, jingles, playlists');
+    console.log('  --page-volume <gain>       Volume of the page audio in the mix (default: 1)');
+    console.log('  --overlays <file>    Overlays (JSON or YAML): watermark, clock, ticker, LIVE badge, text');
+    console.log('  --playlist <file>    Rotate through pages (JSON or YAML) with a slate between them');
+    console.log('  --schedule <file>    Only stream inside cron or date/time windows (JSON or YAML)');
+    console.log('  --fallback <file>    Image, HTML file or video shown while the page fails or returns a 5xx');
+    console.log('  --fallback-text <t>  Text slate shown instead, when there is no fallback file');
+    console.log('  --log-level <level>  trace, debug, info (default), warn or error');
+    console.log('  --log-format <f>     json or text (default: json unless on a terminal)');
     console.log('');
     console.log('Examples:');
     console.log('  npm start https://example.com rtmps://stream.example.com/live/streamkey');
     console.log('  npm start https://example.com rtmps://... --lightweight');
+    console.log('  npm start https://example.com "srt://ingest.example.com:9000?streamid=key" --video-codec libx265');
+    console.log('  npm start https://example.com /var/www/live/stream.m3u8');
+    console.log('  npm start https://example.com --record /data/recordings --record-max-files 24');
+    console.log('  RTMPS_URL=rtmps://... npm start --playlist pages.yaml');
     console.log('  LIGHTWEIGHT=true npm start https://example.com rtmps://...');
     process.exit(1);
   }
+  const config: StreamConfig = stream;
+
+  const runStream = async (streamConfig: StreamConfig) => {
+    const stream = manager.create(streamConfig);
+    await stream.ready;
+    log.info(`Stream ${stream.id} is running. Press Ctrl+C to stop.`);
+    if (preview) {
+      log.info(`Preview: http://localhost:${controlPort}/streams/${stream.id}/preview`);
+    }
 
-  // Parse options (command line args take precedence over env vars)
-  const widthIndex = args.indexOf('--width');
-  const heightIndex = args.indexOf('--height');
-  const fpsIndex = args.indexOf('--fps');
-  const clickSelectorIndex = args.indexOf('--click-selector');
-  const clickXIndex = args.indexOf('--click-x');
-  const clickYIndex = args.indexOf('--click-y');
-  const clickDelayIndex = args.indexOf('--click-delay');
-  const audioDeviceIndex = args.indexOf('--audio-device');
-  const videoDeviceIndex = args.indexOf('--video-device');
-  const lightweight = args.includes('--lightweight') || process.env.LIGHTWEIGHT === 'true';
-
-  const config: StreamConfig = {
-    url,
-    rtmpsUrl,
-    width: widthIndex !== -1 
-      ? parseInt(args[widthIndex + 1]) 
-      : parseInt(process.env.WIDTH || '1920'),
-    height: heightIndex !== -1 
-      ? parseInt(args[heightIndex + 1]) 
-      : parseInt(process.env.HEIGHT || '1080'),
-    fps: fpsIndex !== -1 
-      ? parseInt(args[fpsIndex + 1]) 
-      : parseInt(process.env.FPS || '30'),
-    clickSelector: clickSelectorIndex !== -1 
-      ? args[clickSelectorIndex + 1] 
-      : process.env.CLICK_SELECTOR,
-    clickX: clickXIndex !== -1 
-      ? parseInt(args[clickXIndex + 1]) 
-      : process.env.CLICK_X ? parseInt(process.env.CLICK_X) : undefined,
-    clickY: clickYIndex !== -1 
-      ? parseInt(args[clickYIndex + 1]) 
-      : process.env.CLICK_Y ? parseInt(process.env.CLICK_Y) : undefined,
-    clickDelay: clickDelayIndex !== -1 
-      ? parseInt(args[clickDelayIndex + 1]) 
-      : parseInt(process.env.CLICK_DELAY || '1000'),
-    audioDevice: audioDeviceIndex !== -1 ? args[audioDeviceIndex + 1] : undefined,
-    videoDevice: videoDeviceIndex !== -1 ? args[videoDeviceIndex + 1] : undefined,
-    useVirtualDisplay: process.env.USE_VIRTUAL_DISPLAY === 'true' || 
-                       (process.platform === 'linux' && (!process.env.DISPLAY || process.env.DISPLAY === ':99')),
-    lightweight,
+    // Without the control API nobody can restart a dead stream - exit so the platform restarts the container
+    if (!controlServer) {
+      stream.streamer.once('ffmpeg:giveup', () => {
+        log.error('FFmpeg could not be restarted, exiting');
+        manager.stopAll().finally(() => process.exit(1));
+      });
+    }
+    return stream;
   };
 
-  const streamer = new WebStreamer();
-
-  // Handle graceful shutdown
-  process.on('SIGINT', async () => {
-    console.log('\nReceived SIGINT, shutting down...');
-    await streamer.stopStream();
-    process.exit(0);
-  });
-
-  process.on('SIGTERM', async () => {
-    console.log('\nReceived SIGTERM, shutting down...');
-    await streamer.stopStream();
-    process.exit(0);
-  });
+  // With a schedule the stream only runs inside its windows; in between it's stopped or shows a slate
+  if (schedule) {
+    let current: string | null = null;
+    scheduler = new StreamScheduler(schedule, {
+      enter: async (state) => {
+        if (current) {
+          await manager.stop(current);
+          current = null;
+        }
+        if (state === 'live') {
+          current = (await runStream(config)).id;
+        } else if (schedule.offline === 'slate') {
+          current = (await runStream({
+            ...config,
+            url: offlineSlateUrl(schedule),
+            actions: [],
+            autoplay: false,
+            playlist: undefined,
+            audioSources: undefined,
+            // The slate is silent on purpose
+            audioGateTimeout: 0,
+            silenceAlertAfter: 0,
+            // Only the live windows are recorded and previewed; the slate is a whole page of its own
+            record: undefined,
+            preview: undefined,
+            captureRegion: undefined,
+            captureSelector: undefined,
+            fallback: undefined,
+          })).id;
+        } else {
+          log.info('Schedule: offline, not streaming until the next window');
+        }
+      },
+    });
+    scheduler.start();
+  } else {
+    try {
+      await runStream(config);
+    } catch (error) {
+      log.error('Error starting stream', { error });
+      process.exit(1);
+    }
+  }
 
-  try {
-    await streamer.startStream(config);
-    console.log('Stream is running. Press Ctrl+C to stop.');
-  } catch (error) {
-    console.error('Error starting stream:', error);
-    await streamer.stopStream();
-    process.exit(1);
+  if (controlServer) {
+    await controlServer.start();
   }
 }
 
 // Run if executed directly
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch((error) => {
+    log.error('Fatal error', { error });
+    process.exit(1);
+  });
 }
 
-export { WebStreamer, StreamConfig };
+export { WebStreamer, StreamConfig, WebStreamerOptions };
 
@@ -0,0 +1,152 @@
+type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+type LogFormat = 'json' | 'text';
+type LogFields = Record<string, unknown>;
+
+interface LogSettings {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+const LOG_LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+// Query parameters whose values are credentials
+const SECRET_PARAMS = /^(key|stream_?key|token|access_token|auth|password|passwd|pass|secret|passphrase|streamid|sig|signature)$/i;
+
+// Anything that looks like a URL inside a log line
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/[^\s'"<>]+/gi;
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  const level = value?.toLowerCase();
+  return LOG_LEVELS.includes(level as LogLevel) ? (level as LogLevel) : undefined;
+}
+
+// JSON for log collectors, readable lines on a terminal; LOG_FORMAT overrides either way
+const settings: LogSettings = {
+  level: parseLevel(process.env.LOG_LEVEL) ?? 'info',
+  format: process.env.LOG_FORMAT === 'json' || process.env.LOG_FORMAT === 'text'
+    ? process.env.LOG_FORMAT
+    : process.stdout.isTTY ? 'text' : 'json',
+};
+
+/**
+ * Change the level or format of every logger
+ */
+function configureLogging(options: Partial<LogSettings>): void {
+  if (options.level) {
+    settings.level = options.level;
+  }
+  if (options.format) {
+    settings.format = options.format;
+  }
+}
+
+/**
+ * Mask the credentials in a URL: user info, secret query parameters and RTMP stream keys
+ * rtmp://host/app/streamkey becomes rtmp://host/app/****.
+ */
+function redactUrl(url: string): string {
+  return url
+    .replace(/^([a-z][a-z0-9+.-]*:\/\/)[^/@\s]+@/i, '$1****@')
+    .replace(/([?&;])([^=&;\s]+)=([^&;\s]*)/g, (match, separator, name) => (SECRET_PARAMS.test(name) ? `${separator}${name}=****` : match))
+    .replace(/^(rtmp[a-z]*:\/\/[^/?\s]+\/[^/?\s]+\/)[^?\s]+/i, '$1****');
+}
+
+/**
+ * Mask the credentials of every URL in a piece of text
+ */
+function redact(text: string): string {
+  return text.replace(URL_PATTERN, (url) => redactUrl(url));
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redact(value);
+  }
+  if (value instanceof Error) {
+    return { message: redact(value.message), ...(value.stack ? { stack: redact(value.stack) } : {}) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  return value;
+}
+
+function formatText(value: unknown): string {
+  if (value && typeof value === 'object' && 'message' in value) {
+    return JSON.stringify((value as { message: string }).message);
+  }
+  return typeof value === 'string' && !/\s/.test(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Leveled logger for one component (ffmpeg, pulse, browser, xvfb, ...)
+ * Every line is written as one JSON object or one text line, with the credentials in URLs masked.
+ * Warnings and errors go to stderr, everything else to stdout.
+ */
+class Logger {
+  constructor(private component: string, private fields: LogFields = {}) {}
+
+  /**
+   * Logger for another component (or the same one) that keeps this logger's fields
+   */
+  child(component: string = this.component, fields: LogFields = {}): Logger {
+    return new Logger(component, { ...this.fields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(settings.level);
+  }
+
+  trace(message: string, fields?: LogFields): void {
+    this.write('trace', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    const extra: LogFields = {};
+    for (const [key, value] of Object.entries({ ...this.fields, ...fields })) {
+      if (value !== undefined) {
+        extra[key] = redactValue(value);
+      }
+    }
+
+    const time = new Date().toISOString();
+    const line = settings.format === 'json'
+      ? JSON.stringify({ time, level, component: this.component, msg: redact(message), ...extra })
+      : [
+          time,
+          level.toUpperCase().padEnd(5),
+          `[${this.component}]`,
+          redact(message),
+          ...Object.entries(extra).map(([key, value]) => `${key}=${formatText(value)}`),
+        ].join(' ');
+    (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+}
+
+/**
+ * Logger for a component, e.g. `createLogger('pulse')`
+ */
+function createLogger(component: string, fields: LogFields = {}): Logger {
+  return new Logger(component, fields);
+}
+
+export { Logger, LogLevel, LogFormat, LogFields, LOG_LEVELS, createLogger, configureLogging, parseLevel, redact, redactUrl };
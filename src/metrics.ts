@@ -0,0 +1,157 @@
+import type { ManagedStream } from './stream-manager';
+import type { FFmpegProgress } from './supervisor';
+import { redactUrl } from './logger';
+
+type MetricType = 'gauge' | 'counter';
+type Labels = Record<string, string>;
+
+// name: [type, help]; the order here is the order of the exposition
+const METRICS: Record<string, [MetricType, string]> = {
+  webstreamer_uptime_seconds: ['gauge', 'Seconds since the control API started'],
+  webstreamer_streams: ['gauge', 'Streams known to the manager, by status'],
+  webstreamer_stream_up: ['gauge', 'Whether the stream is running (1) or not (0)'],
+  webstreamer_ffmpeg_up: ['gauge', 'Whether the encoder process is running'],
+  webstreamer_ffmpeg_uptime_seconds: ['gauge', 'Seconds since the encoder process (re)started'],
+  webstreamer_ffmpeg_restarts_total: ['counter', 'Times the encoder was restarted after exiting'],
+  webstreamer_ffmpeg_silent_audio: ['gauge', 'Whether the encoder runs on silent audio after capture failures'],
+  webstreamer_ffmpeg_frames_total: ['counter', 'Frames encoded by the current encoder run'],
+  webstreamer_ffmpeg_fps: ['gauge', 'Frames per second the encoder currently produces'],
+  webstreamer_ffmpeg_bitrate_bits_per_second: ['gauge', 'Current output bitrate of the encoder'],
+  webstreamer_ffmpeg_output_bytes_total: ['counter', 'Bytes written by the current encoder run'],
+  webstreamer_ffmpeg_dropped_frames_total: ['counter', 'Frames dropped by the current encoder run'],
+  webstreamer_ffmpeg_duplicated_frames_total: ['counter', 'Frames duplicated by the current encoder run'],
+  webstreamer_ffmpeg_speed: ['gauge', 'Encoding speed relative to real time (below 1 means falling behind)'],
+  webstreamer_browser_restarts_total: ['counter', 'Times the watchdog relaunched the browser'],
+  webstreamer_audio_rms_dbfs: ['gauge', 'Audio RMS level over the last 100ms'],
+  webstreamer_audio_peak_dbfs: ['gauge', 'Audio peak level over the last 100ms'],
+  webstreamer_audio_silent_seconds: ['gauge', 'Seconds of continuous silence (0 while there is sound)'],
+  webstreamer_destination_up: ['gauge', 'Whether the process pushing to the destination is running'],
+  webstreamer_destination_gave_up: ['gauge', 'Whether the destination ran out of restarts'],
+  webstreamer_destination_uptime_seconds: ['gauge', 'Seconds since the destination process (re)started'],
+  webstreamer_destination_restarts_total: ['counter', 'Times the destination process was restarted'],
+  webstreamer_destination_bitrate_bits_per_second: ['gauge', 'Current bitrate sent to the destination'],
+  webstreamer_recording_up: ['gauge', 'Whether the recorder is running'],
+  webstreamer_recording_bytes: ['gauge', 'Bytes of recordings on disk'],
+};
+
+const STATUSES = ['starting', 'running', 'stopping', 'stopped', 'error'];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+/**
+ * Collects samples and writes them in the Prometheus text exposition format
+ */
+class MetricsWriter {
+  private samples: Map<string, string[]> = new Map();
+
+  add(name: string, labels: Labels, value: number | boolean | null | undefined): void {
+    if (value === null || value === undefined) {
+      return;
+    }
+    const labelText = Object.entries(labels)
+      .map(([key, label]) => `${key}="${escapeLabel(label)}"`)
+      .join(',');
+    const sample = `${name}${labelText ? `{${labelText}}` : ''} ${formatValue(Number(value))}`;
+    this.samples.set(name, [...(this.samples.get(name) ?? []), sample]);
+  }
+
+  /**
+   * Every metric with at least one sample, with its HELP and TYPE lines
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, [type, help]] of Object.entries(METRICS)) {
+      const samples = this.samples.get(name);
+      if (!samples) {
+        continue;
+      }
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+function addProgress(metrics: MetricsWriter, labels: Labels, progress: FFmpegProgress | null): void {
+  if (!progress) {
+    return;
+  }
+  metrics.add('webstreamer_ffmpeg_frames_total', labels, progress.frames);
+  metrics.add('webstreamer_ffmpeg_fps', labels, progress.fps);
+  metrics.add('webstreamer_ffmpeg_bitrate_bits_per_second', labels, progress.bitrate);
+  metrics.add('webstreamer_ffmpeg_output_bytes_total', labels, progress.totalSize);
+  metrics.add('webstreamer_ffmpeg_dropped_frames_total', labels, progress.dropFrames);
+  metrics.add('webstreamer_ffmpeg_duplicated_frames_total', labels, progress.dupFrames);
+  metrics.add('webstreamer_ffmpeg_speed', labels, progress.speed);
+}
+
+/**
+ * Prometheus metrics for every stream of the manager
+ * Frame, byte and drop counters come from FFmpeg's -progress output and start over when FFmpeg restarts.
+ */
+function renderMetrics(streams: ManagedStream[], uptime: number): string {
+  const metrics = new MetricsWriter();
+  metrics.add('webstreamer_uptime_seconds', {}, Math.round(uptime));
+  for (const status of STATUSES) {
+    metrics.add('webstreamer_streams', { status }, streams.filter((entry) => entry.status === status).length);
+  }
+
+  for (const entry of streams) {
+    const stream = { stream: entry.id };
+    metrics.add('webstreamer_stream_up', stream, entry.status === 'running');
+    if (entry.status === 'stopped' || entry.status === 'error') {
+      continue;
+    }
+    const { streamer } = entry;
+
+    const ffmpeg = streamer.ffmpegStatus;
+    if (ffmpeg) {
+      metrics.add('webstreamer_ffmpeg_up', stream, ffmpeg.running);
+      metrics.add('webstreamer_ffmpeg_uptime_seconds', stream, Math.round(ffmpeg.uptime / 1000));
+      metrics.add('webstreamer_ffmpeg_restarts_total', stream, ffmpeg.restarts);
+      metrics.add('webstreamer_ffmpeg_silent_audio', stream, ffmpeg.silentAudio);
+      addProgress(metrics, stream, ffmpeg.progress);
+    }
+    metrics.add('webstreamer_browser_restarts_total', stream, streamer.browserRestartCount);
+
+    const audio = streamer.audioLevels;
+    if (audio) {
+      metrics.add('webstreamer_audio_rms_dbfs', stream, audio.rms);
+      metrics.add('webstreamer_audio_peak_dbfs', stream, audio.peak);
+      metrics.add('webstreamer_audio_silent_seconds', stream, audio.silentFor);
+    }
+
+    // Simulcast pushes through one relay per destination; a single destination is the encoder itself
+    const urls = Array.isArray(entry.config.rtmpsUrl) ? entry.config.rtmpsUrl : entry.config.rtmpsUrl ? [entry.config.rtmpsUrl] : [];
+    const relays = streamer.outputStatus;
+    const destinations = relays.length > 0 ? relays : ffmpeg && urls.length > 0 ? [{ output: 0, ...ffmpeg }] : [];
+    for (const destination of destinations) {
+      const labels = { ...stream, destination: String(destination.output), url: redactUrl(urls[destination.output] ?? '') };
+      metrics.add('webstreamer_destination_up', labels, destination.running);
+      metrics.add('webstreamer_destination_gave_up', labels, destination.gaveUp);
+      metrics.add('webstreamer_destination_uptime_seconds', labels, Math.round(destination.uptime / 1000));
+      metrics.add('webstreamer_destination_restarts_total', labels, destination.restarts);
+      metrics.add('webstreamer_destination_bitrate_bits_per_second', labels, destination.progress?.bitrate);
+    }
+
+    const recording = streamer.recordingStatus;
+    if (recording) {
+      metrics.add('webstreamer_recording_up', stream, recording.running);
+      metrics.add('webstreamer_recording_bytes', stream, recording.bytes);
+    }
+  }
+  return metrics.render();
+}
+
+export { renderMetrics };
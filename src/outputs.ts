@@ -0,0 +1,138 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type { EncoderSettings } from './encoder';
+import { Logger, createLogger } from './logger';
+
+const log = createLogger('ffmpeg');
+
+type OutputProtocol = 'rtmp' | 'srt' | 'udp' | 'hls';
+
+interface OutputTarget {
+  protocol: OutputProtocol;
+  // FFmpeg muxer (-f) for this destination
+  format: 'flv' | 'mpegts' | 'hls';
+  url: string;
+  // Everything after the codec options: -f <format>, muxer options and the URL
+  outputArgs: string[];
+}
+
+// MPEG-TS over UDP should be sent in multiples of 188-byte packets
+const UDP_PACKET_SIZE = 1316;
+
+/**
+ * Detect the protocol of a destination from its URL scheme (or a local .m3u8 path)
+ */
+function detectProtocol(url: string): OutputProtocol {
+  const lower = url.toLowerCase();
+  if (lower.startsWith('rtmp://') || lower.startsWith('rtmps://')) {
+    return 'rtmp';
+  }
+  if (lower.startsWith('srt://')) {
+    return 'srt';
+  }
+  if (lower.startsWith('udp://')) {
+    return 'udp';
+  }
+  const isLocal = lower.startsWith('file://') || !/^[a-z][a-z0-9+.-]*:\/\//.test(lower);
+  if (isLocal && lower.split('?')[0].endsWith('.m3u8')) {
+    return 'hls';
+  }
+  throw new Error(
+    `Unsupported output "${url}". Use rtmp://, rtmps://, srt://, udp:// or a local path ending in .m3u8`
+  );
+}
+
+/**
+ * Reject codec/container combinations the muxer can't carry
+ * Combinations that depend on the FFmpeg build or the ingest server only log a warning.
+ */
+function checkCodecSupport(protocol: OutputProtocol, settings: EncoderSettings, logger: Logger): void {
+  const { videoCodec, audioCodec } = settings;
+
+  if (protocol === 'rtmp') {
+    if (audioCodec === 'opus') {
+      throw new Error('Opus audio cannot be sent over RTMP (FLV); use aac or mp3, or an SRT/HLS output');
+    }
+    if (videoCodec !== 'libx264') {
+      logger.warn(`${videoCodec} over RTMP needs FFmpeg 6.1+ and an ingest that supports Enhanced RTMP`);
+    }
+  } else if (protocol === 'srt' || protocol === 'udp') {
+    if (videoCodec === 'libvpx-vp9') {
+      throw new Error('VP9 cannot be carried in MPEG-TS (SRT/UDP); use libx264, libx265 or libsvtav1');
+    }
+    if (videoCodec === 'libsvtav1') {
+      logger.warn('AV1 in MPEG-TS needs FFmpeg 7.1+ and a receiver that supports it');
+    }
+  }
+}
+
+/**
+ * Work out the muxer and its options for one destination
+ * Local HLS playlists get their directory created and rolling segments next to them.
+ */
+function resolveOutput(url: string, settings: EncoderSettings, logger: Logger = log): OutputTarget {
+  const protocol = detectProtocol(url);
+  checkCodecSupport(protocol, settings, logger);
+
+  switch (protocol) {
+    case 'rtmp':
+      return { protocol, format: 'flv', url, outputArgs: ['-f', 'flv', url] };
+
+    case 'srt':
+      return { protocol, format: 'mpegts', url, outputArgs: ['-f', 'mpegts', url] };
+
+    case 'udp': {
+      const udpUrl = url.includes('pkt_size=')
+        ? url
+        : `${url}${url.includes('?') ? '&' : '?'}pkt_size=${UDP_PACKET_SIZE}`;
+      return { protocol, format: 'mpegts', url: udpUrl, outputArgs: ['-f', 'mpegts', udpUrl] };
+    }
+
+    case 'hls': {
+      const playlist = url.startsWith('file://') ? url.slice('file://'.length) : url;
+      const dir = path.dirname(playlist);
+      mkdirSync(dir, { recursive: true });
+
+      // MPEG-TS segments only carry H.264/HEVC with AAC/MP3; anything else needs fMP4 segments
+      const fmp4 = settings.videoCodec === 'libsvtav1'
+        || settings.videoCodec === 'libvpx-vp9'
+        || settings.audioCodec === 'opus';
+      const base = path.basename(playlist, '.m3u8');
+
+      return {
+        protocol,
+        format: 'hls',
+        url: playlist,
+        outputArgs: [
+          '-f', 'hls',
+          '-hls_time', '4',
+          '-hls_list_size', '6',
+          '-hls_flags', 'delete_segments+independent_segments+omit_endlist',
+          ...(fmp4
+            ? ['-hls_segment_type', 'fmp4', '-hls_fmp4_init_filename', `${base}_init.mp4`]
+            : []),
+          '-hls_segment_filename', path.join(dir, `${base}_%05d.${fmp4 ? 'm4s' : 'ts'}`),
+          playlist,
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * Arguments for a copy-only relay that re-muxes the shared MPEG-TS encode for one destination
+ */
+function relayArgs(target: OutputTarget, settings: EncoderSettings): string[] {
+  // MPEG-TS carries AAC with ADTS headers, FLV needs the ASC form (fMP4 segments convert on their own)
+  const needsAacFix = settings.audioCodec === 'aac' && target.format === 'flv';
+  return [
+    '-f', 'mpegts',
+    '-i', 'pipe:0',
+    '-map', '0',
+    '-c', 'copy',
+    ...(needsAacFix ? ['-bsf:a', 'aac_adtstoasc'] : []),
+    ...target.outputArgs,
+  ];
+}
+
+export { OutputProtocol, OutputTarget, resolveOutput, relayArgs };
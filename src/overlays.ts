@@ -0,0 +1,281 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+type OverlayPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+interface OverlayCommon {
+  // Used to address the overlay at runtime (default: its type, then type-2, type-3, ...)
+  id?: string;
+  enabled?: boolean;
+  position?: OverlayPosition;
+  // Distance from the frame edge in pixels (default 20)
+  margin?: number;
+}
+
+interface TextStyle {
+  fontSize?: number;
+  color?: string;
+  // Box behind the text, e.g. "black@0.6"; "none" for no box
+  background?: string;
+  // TrueType font file (default: FFmpeg's fontconfig default)
+  fontFile?: string;
+}
+
+type Overlay = OverlayCommon & (
+  | { type: 'image'; path: string; opacity?: number; width?: number }
+  | ({ type: 'text'; text: string } & TextStyle)
+  | ({ type: 'clock'; format?: string } & TextStyle)
+  | ({ type: 'ticker'; text: string; speed?: number } & TextStyle)
+  | ({ type: 'badge'; text?: string } & TextStyle)
+);
+
+type OverlayType = Overlay['type'];
+
+class OverlayError extends Error {}
+
+const OVERLAY_TYPES: OverlayType[] = ['image', 'text', 'clock', 'ticker', 'badge'];
+
+const POSITIONS: OverlayPosition[] = [
+  'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right',
+];
+
+// Per-type defaults; a lower-third is a `text` overlay with these
+const DEFAULTS: Record<OverlayType, { position: OverlayPosition; fontSize: number; color: string; background: string }> = {
+  image: { position: 'top-right', fontSize: 0, color: '', background: '' },
+  text: { position: 'bottom-left', fontSize: 36, color: 'white', background: 'black@0.6' },
+  clock: { position: 'top-right', fontSize: 28, color: 'white', background: 'black@0.5' },
+  ticker: { position: 'bottom', fontSize: 32, color: 'white', background: 'black@0.6' },
+  badge: { position: 'top-left', fontSize: 28, color: 'white', background: 'red@0.9' },
+};
+
+const DEFAULT_CLOCK_FORMAT = '%Y-%m-%d %H:%M:%S';
+const DEFAULT_TICKER_SPEED = 120;
+
+// Fields that drawtext re-reads from its text file every frame; anything else needs an FFmpeg restart
+const LIVE_FIELDS = ['text', 'format'];
+
+// Escape a value for a filter option, then for the filtergraph around it
+function escapeFilterValue(value: string): string {
+  return value.replace(/[\\':]/g, '\\$&').replace(/[\\'[\],;]/g, '\\$&');
+}
+
+function filterOptions(options: Record<string, string | number>): string {
+  return Object.entries(options).map(([key, value]) => `${key}=${escapeFilterValue(value.toString())}`).join(':');
+}
+
+/**
+ * x/y expressions for a position; `w`/`h` are the overlay's size, `W`/`H` the frame's
+ */
+function placement(position: OverlayPosition, margin: number, w: string, h: string, W: string, H: string): { x: string; y: string } {
+  const x = position.endsWith('left') || position === 'left'
+    ? `${margin}`
+    : position.endsWith('right') || position === 'right' ? `${W}-${w}-${margin}` : `(${W}-${w})/2`;
+  const y = position.startsWith('top')
+    ? `${margin}`
+    : position.startsWith('bottom') ? `${H}-${h}-${margin}` : `(${H}-${h})/2`;
+  return { x, y };
+}
+
+/**
+ * Check an overlay list's shape and return it typed
+ */
+function validateOverlays(input: unknown): Overlay[] {
+  if (!Array.isArray(input)) {
+    throw new OverlayError('Overlays must be a list');
+  }
+  input.forEach((overlay: any, index: number) => validateOverlay(overlay, `Overlay ${index + 1}`));
+  return input as Overlay[];
+}
+
+/**
+ * Load overlays from a .json, .yaml or .yml file (a list, or an object with an `overlays` list)
+ */
+function loadOverlays(file: string): Overlay[] {
+  const content = readFileSync(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  let parsed: any;
+  try {
+    parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (e) {
+    throw new OverlayError(`Could not parse overlays ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  return validateOverlays(Array.isArray(parsed) ? parsed : parsed?.overlays);
+}
+
+function validateOverlay(overlay: any, where: string): void {
+  if (!overlay || typeof overlay !== 'object' || !OVERLAY_TYPES.includes(overlay.type)) {
+    throw new OverlayError(`${where}: "type" must be one of ${OVERLAY_TYPES.join(', ')}`);
+  }
+  if (overlay.type === 'image' && (typeof overlay.path !== 'string' || !overlay.path)) {
+    throw new OverlayError(`${where} (image): "path" is required`);
+  }
+  if ((overlay.type === 'text' || overlay.type === 'ticker') && typeof overlay.text !== 'string') {
+    throw new OverlayError(`${where} (${overlay.type}): "text" is required`);
+  }
+  if (overlay.position !== undefined && !POSITIONS.includes(overlay.position)) {
+    throw new OverlayError(`${where}: "position" must be one of ${POSITIONS.join(', ')}`);
+  }
+  if (overlay.opacity !== undefined && (typeof overlay.opacity !== 'number' || overlay.opacity < 0 || overlay.opacity > 1)) {
+    throw new OverlayError(`${where}: "opacity" must be between 0 and 1`);
+  }
+  for (const field of ['margin', 'width', 'fontSize', 'speed']) {
+    if (overlay[field] !== undefined && (typeof overlay[field] !== 'number' || overlay[field] < 0)) {
+      throw new OverlayError(`${where}: "${field}" must be a number >= 0`);
+    }
+  }
+  for (const field of ['id', 'text', 'format', 'color', 'background', 'fontFile']) {
+    if (overlay[field] !== undefined && typeof overlay[field] !== 'string') {
+      throw new OverlayError(`${where}: "${field}" must be a string`);
+    }
+  }
+  if (overlay.enabled !== undefined && typeof overlay.enabled !== 'boolean') {
+    throw new OverlayError(`${where}: "enabled" must be true or false`);
+  }
+}
+
+// Text for drawtext's expansion, where `\` escapes the next character and `%` starts a `%{...}` function
+function escapeDrawtext(text: string): string {
+  return text.replace(/[\\%]/g, '\\$&');
+}
+
+/**
+ * Holds a stream's overlays and turns them into FFmpeg video filters
+ * Text of text/clock/ticker/badge overlays lives in files that drawtext reloads every frame,
+ * so changing it is instant. Anything else (toggling, moving, restyling) changes the filter
+ * graph, and `update` reports that FFmpeg has to be restarted.
+ */
+class OverlayController {
+  private overlays: (Overlay & { id: string })[] = [];
+
+  constructor(overlays: Overlay[], private directory: string) {
+    const seen = new Map<string, number>();
+    for (const overlay of overlays) {
+      const count = (seen.get(overlay.type) ?? 0) + 1;
+      seen.set(overlay.type, count);
+      const id = overlay.id ?? (count === 1 ? overlay.type : `${overlay.type}-${count}`);
+      if (this.overlays.some((existing) => existing.id === id)) {
+        throw new OverlayError(`Duplicate overlay id "${id}"`);
+      }
+      this.overlays.push({ ...overlay, id });
+    }
+  }
+
+  get list(): (Overlay & { id: string })[] {
+    return this.overlays.map((overlay) => ({ ...overlay, enabled: overlay.enabled !== false }));
+  }
+
+  /**
+   * Change an overlay; returns the updated overlay and whether FFmpeg must restart to show it
+   */
+  update(id: string, patch: Record<string, unknown>): { overlay: Overlay & { id: string }; restart: boolean } {
+    const index = this.overlays.findIndex((overlay) => overlay.id === id);
+    if (index === -1) {
+      throw new OverlayError(`Overlay ${id} not found`);
+    }
+    const { id: _id, type: _type, ...changes } = patch;
+    const previous: { [field: string]: unknown } = { ...this.overlays[index] };
+    const updated = { ...this.overlays[index], ...changes } as Overlay & { id: string };
+    validateOverlay(updated, `Overlay ${id}`);
+    this.overlays[index] = updated;
+
+    const restart = Object.entries(changes).some(([field, value]) => {
+      if (field === 'enabled') {
+        return (previous.enabled !== false) !== (value !== false);
+      }
+      return !LIVE_FIELDS.includes(field) && previous[field] !== value;
+    });
+    if (!restart && updated.enabled !== false && updated.type !== 'image') {
+      this.writeText(updated);
+    }
+    return { overlay: { ...updated, enabled: updated.enabled !== false }, restart };
+  }
+
+  /**
+   * Video filters for all enabled overlays, applied in order after scaling
+   * Also (re)writes the text files they read.
+   */
+  filters(): string[] {
+    const enabled = this.overlays.filter((overlay) => overlay.enabled !== false);
+    if (enabled.some((overlay) => overlay.type !== 'image')) {
+      mkdirSync(this.directory, { recursive: true });
+    }
+    return enabled.map((overlay, index) => {
+      if (overlay.type === 'image') {
+        return this.imageFilter(overlay, index);
+      }
+      this.writeText(overlay);
+      return this.textFilter(overlay);
+    });
+  }
+
+  // Image overlays need a second input, read by a movie source inside the same chain
+  private imageFilter(overlay: Extract<Overlay, { type: 'image' }>, index: number): string {
+    const { x, y } = placement(overlay.position ?? 'top-right', overlay.margin ?? 20, 'w', 'h', 'W', 'H');
+    const image = [
+      `movie=${filterOptions({ filename: overlay.path })}`,
+      'format=rgba',
+      `colorchannelmixer=aa=${overlay.opacity ?? 1}`,
+      ...(overlay.width ? [`scale=${overlay.width}:-1`] : []),
+    ].join(',');
+    return `null[base${index}];${image}[logo${index}];[base${index}][logo${index}]overlay=${filterOptions({ x, y })}`;
+  }
+
+  private textFilter(overlay: Exclude<Overlay, { type: 'image' }> & { id: string }): string {
+    const defaults = DEFAULTS[overlay.type];
+    const margin = overlay.margin ?? 20;
+    const background = overlay.background ?? defaults.background;
+    let { x, y } = placement(overlay.position ?? defaults.position, margin, 'tw', 'th', 'w', 'h');
+    if (overlay.type === 'ticker') {
+      // Scroll right to left, starting again once the text has left the frame
+      x = `w-mod(t*${overlay.speed ?? DEFAULT_TICKER_SPEED},w+tw)`;
+    }
+
+    return `drawtext=${filterOptions({
+      textfile: this.textFile(overlay.id),
+      reload: 1,
+      ...(overlay.fontFile ? { fontfile: overlay.fontFile } : {}),
+      fontsize: overlay.fontSize ?? defaults.fontSize,
+      fontcolor: overlay.color ?? defaults.color,
+      ...(background && background !== 'none'
+        ? { box: 1, boxcolor: background, boxborderw: Math.round((overlay.fontSize ?? defaults.fontSize) / 3) }
+        : {}),
+      x,
+      y,
+    })}`;
+  }
+
+  private textFile(id: string): string {
+    return path.join(this.directory, `${id.replace(/[^\w-]/g, '_')}.txt`);
+  }
+
+  // drawtext may reload mid-write, so the file is replaced atomically
+  private writeText(overlay: Overlay & { id: string }): void {
+    let content: string;
+    switch (overlay.type) {
+      case 'clock':
+        content = `%{localtime:${(overlay.format ?? DEFAULT_CLOCK_FORMAT).replace(/[\\:}]/g, '\\$&')}}`;
+        break;
+      case 'badge':
+        content = escapeDrawtext(overlay.text ?? 'LIVE');
+        break;
+      case 'text':
+      case 'ticker':
+        content = escapeDrawtext(overlay.text);
+        if (overlay.type === 'ticker') {
+          content = content.replace(/\s*\n\s*/g, '   ');
+        }
+        break;
+      default:
+        return;
+    }
+    const file = this.textFile(overlay.id);
+    writeFileSync(`${file}.tmp`, content);
+    renameSync(`${file}.tmp`, file);
+  }
+}
+
+export { Overlay, OverlayPosition, OverlayError, OverlayController, validateOverlays, loadOverlays };
@@ -0,0 +1,257 @@
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { Page } from 'puppeteer';
+import { ActionStep, ActionScriptError, validateActions } from './actions';
+import { Logger, createLogger } from './logger';
+
+interface PlaylistPage {
+  url: string;
+  // Seconds to stay on this page (default: the playlist's dwell)
+  dwell?: number;
+  // Run after the page has loaded, before it is revealed
+  actions?: ActionStep[];
+  // Include this page's sound in the stream (default true)
+  audio?: boolean;
+}
+
+interface PlaylistOptions {
+  pages: PlaylistPage[];
+  // Default seconds per page (default 60)
+  dwell?: number;
+  // Fade to and from the slate over this many ms (default 500, 0 = cut)
+  fade?: number;
+  // Holding slate shown while the next page loads
+  slateColor?: string;
+  slateText?: string;
+  // Reveal the page anyway after this many ms of loading (default 30000)
+  loadTimeout?: number;
+}
+
+interface PlaylistHooks {
+  // The page currently on screen (null while the browser is being relaunched)
+  getPage: () => Page | null;
+  // Run the page's actions and get its audio going, before it is revealed
+  preparePage: (page: Page, entry: PlaylistPage) => Promise<void>;
+  // Let the page's sound into the stream, or keep it out
+  setAudio: (enabled: boolean) => Promise<void>;
+  // Where the rotator logs (default: a plain `playlist` logger)
+  logger?: Logger;
+}
+
+class PlaylistError extends Error {}
+
+const SLATE_ID = '__web_streamer_slate';
+const RETRY_DELAY = 5000;
+
+/**
+ * Check a playlist's shape and return it typed
+ */
+function validatePlaylist(input: unknown): PlaylistOptions {
+  const playlist = (Array.isArray(input) ? { pages: input } : input) as any;
+  if (!playlist || !Array.isArray(playlist.pages) || playlist.pages.length === 0) {
+    throw new PlaylistError('Playlist needs a non-empty "pages" list');
+  }
+  playlist.pages.forEach((entry: any, index: number) => {
+    const where = `Playlist page ${index + 1}`;
+    if (!entry || typeof entry.url !== 'string' || !entry.url) {
+      throw new PlaylistError(`${where}: "url" is required`);
+    }
+    if (entry.dwell !== undefined && (typeof entry.dwell !== 'number' || entry.dwell <= 0)) {
+      throw new PlaylistError(`${where}: "dwell" must be a number of seconds > 0`);
+    }
+    if (entry.actions !== undefined) {
+      try {
+        entry.actions = validateActions(entry.actions);
+      } catch (error) {
+        throw new PlaylistError(`${where}: ${error instanceof ActionScriptError ? error.message : error}`);
+      }
+    }
+  });
+  for (const field of ['dwell', 'fade', 'loadTimeout']) {
+    if (playlist[field] !== undefined && (typeof playlist[field] !== 'number' || playlist[field] < 0)) {
+      throw new PlaylistError(`Playlist "${field}" must be a number >= 0`);
+    }
+  }
+  return playlist as PlaylistOptions;
+}
+
+/**
+ * Load a playlist from a .json, .yaml or .yml file
+ */
+function loadPlaylist(file: string): PlaylistOptions {
+  const content = readFileSync(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (e) {
+    throw new PlaylistError(`Could not parse playlist ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  return validatePlaylist(parsed);
+}
+
+// Page-side code that puts the slate up: faded in over `fade` ms, or already opaque on a new document
+function showSlateScript(options: PlaylistOptions, fade: number, onNewDocument: boolean): string {
+  return `(() => {
+    if (window !== window.top) return;
+    const show = () => {
+      const root = document.documentElement;
+      if (!root) return false;
+      let slate = document.getElementById(${JSON.stringify(SLATE_ID)});
+      if (!slate) {
+        slate = document.createElement('div');
+        slate.id = ${JSON.stringify(SLATE_ID)};
+        slate.textContent = ${JSON.stringify(options.slateText ?? '')};
+        slate.style.cssText = 'position:fixed;inset:0;z-index:2147483647;pointer-events:none;display:flex;'
+          + 'align-items:center;justify-content:center;font:bold 48px sans-serif;color:#fff;opacity:0;'
+          + 'background:' + ${JSON.stringify(options.slateColor ?? '#000')};
+        root.appendChild(slate);
+      }
+      slate.style.transition = ${onNewDocument ? "'none'" : `'opacity ${fade}ms'`};
+      slate.getBoundingClientRect();
+      slate.style.opacity = '1';
+      return true;
+    };
+    if (!show()) {
+      new MutationObserver((records, observer) => { if (show()) observer.disconnect(); })
+        .observe(document, { childList: true });
+    }
+  })()`;
+}
+
+function hideSlateScript(fade: number): string {
+  return `(() => {
+    const slate = document.getElementById(${JSON.stringify(SLATE_ID)});
+    if (!slate) return;
+    slate.style.transition = 'opacity ${fade}ms';
+    slate.style.opacity = '0';
+    setTimeout(() => slate.remove(), ${fade + 50});
+  })()`;
+}
+
+/**
+ * Cycles the browser through a list of pages while FFmpeg keeps capturing
+ * Each change fades the current page to a slate, navigates in the same tab with the slate
+ * already up on the new document, runs the page's actions and then fades the slate out.
+ *
+ * Events: page ({ index, url }), page-error ({ index, url, message })
+ */
+class PageRotator extends EventEmitter {
+  private index = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private nextAt: number | null = null;
+  private log: Logger;
+
+  constructor(private options: PlaylistOptions, private hooks: PlaylistHooks) {
+    super();
+    this.log = hooks.logger ?? createLogger('playlist');
+  }
+
+  /**
+   * Start rotating; the first page is expected to be on screen already
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    this.index = 0;
+    await this.hooks.setAudio(this.current.audio !== false);
+    this.schedule(this.dwell(this.current));
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.nextAt = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get current(): PlaylistPage {
+    return this.options.pages[this.index];
+  }
+
+  get status() {
+    return {
+      index: this.index,
+      url: this.current.url,
+      pages: this.options.pages.length,
+      nextAt: this.nextAt ? new Date(this.nextAt).toISOString() : null,
+    };
+  }
+
+  private dwell(entry: PlaylistPage): number {
+    return (entry.dwell ?? this.options.dwell ?? 60) * 1000;
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped || this.options.pages.length < 2) {
+      return;
+    }
+    this.nextAt = Date.now() + delay;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.advance().catch((error) => this.log.error('Playlist rotation failed', { error }));
+    }, delay);
+  }
+
+  private async advance(): Promise<void> {
+    const page = this.hooks.getPage();
+    if (!page) {
+      // Browser is being relaunched - try again shortly
+      this.schedule(RETRY_DELAY);
+      return;
+    }
+
+    const nextIndex = (this.index + 1) % this.options.pages.length;
+    const entry = this.options.pages[nextIndex];
+    const fade = this.options.fade ?? 500;
+    this.log.info(`Switching to page ${nextIndex + 1}/${this.options.pages.length}: ${entry.url}`);
+
+    try {
+      await page.evaluate(showSlateScript(this.options, fade, false)).catch(() => {});
+      await new Promise((resolve) => setTimeout(resolve, fade));
+      await this.hooks.setAudio(false);
+
+      const { identifier } = await page.evaluateOnNewDocument(showSlateScript(this.options, fade, true));
+      try {
+        await page.goto(entry.url, { waitUntil: 'networkidle2', timeout: this.options.loadTimeout ?? 30000 });
+      } catch (error) {
+        // Slow pages are shown as far as they got; a dead page is caught by the watchdog
+        this.log.warn(`Playlist page ${entry.url} did not finish loading: ${error instanceof Error ? error.message : error}`);
+      } finally {
+        await page.removeScriptToEvaluateOnNewDocument(identifier).catch(() => {});
+      }
+      // The stream was stopped while the page loaded
+      if (this.stopped) {
+        return;
+      }
+
+      this.index = nextIndex;
+      try {
+        await this.hooks.preparePage(page, entry);
+      } catch (error) {
+        this.log.warn(`Playlist page ${entry.url}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      await page.evaluate(hideSlateScript(fade)).catch(() => {});
+      await this.hooks.setAudio(entry.audio !== false);
+      this.log.info(`Playlist page ${nextIndex + 1} on air`);
+      this.emit('page', { index: nextIndex, url: entry.url });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log.error(`Playlist switch to ${entry.url} failed: ${message}`);
+      this.index = nextIndex;
+      // Don't leave the slate up or the sound off
+      await page.evaluate(hideSlateScript(fade)).catch(() => {});
+      await this.hooks.setAudio(entry.audio !== false).catch(() => {});
+      this.emit('page-error', { index: nextIndex, url: entry.url, message });
+    }
+
+    this.schedule(this.dwell(this.current));
+  }
+}
+
+export { PlaylistPage, PlaylistOptions, PlaylistError, PageRotator, validatePlaylist, loadPlaylist };
@@ -0,0 +1,103 @@
+import path from 'path';
+
+// Small enough to watch over a slow link, big enough to read a dashboard
+const PREVIEW_HEIGHT = 360;
+const PREVIEW_VIDEO_BITRATE = '600k';
+const PREVIEW_AUDIO_BITRATE = '64k';
+
+const PREVIEW_PLAYLIST = 'index.m3u8';
+
+/**
+ * Extra FFmpeg output that writes a low-bitrate H.264/AAC HLS preview next to the real outputs
+ * Always H.264/AAC in MPEG-TS segments so any browser can play it, whatever the main codecs are.
+ * `videoFilters` are the main output's filters, so the preview shows the same picture.
+ */
+function buildPreviewArgs(directory: string, fps: number, mapArgs: string[] = [], videoFilters: string[] = []): string[] {
+  const gopSize = fps <= 1 ? Math.max(1, Math.round(fps)) : 2 * fps;
+  return [
+    ...mapArgs,
+    '-vf', [...videoFilters, `scale=-2:${PREVIEW_HEIGHT}`].join(','),
+    '-c:v', 'libx264',
+    '-preset', 'ultrafast',
+    '-tune', 'zerolatency',
+    '-b:v', PREVIEW_VIDEO_BITRATE,
+    '-maxrate', PREVIEW_VIDEO_BITRATE,
+    '-bufsize', PREVIEW_VIDEO_BITRATE,
+    '-pix_fmt', 'yuv420p',
+    '-g', gopSize.toString(),
+    '-c:a', 'aac',
+    '-b:a', PREVIEW_AUDIO_BITRATE,
+    '-ar', '44100',
+    '-ac', '2',
+    '-f', 'hls',
+    '-hls_time', '2',
+    '-hls_list_size', '5',
+    '-hls_flags', 'delete_segments+omit_endlist',
+    '-hls_segment_filename', path.join(directory, 'segment_%05d.ts'),
+    path.join(directory, PREVIEW_PLAYLIST),
+  ];
+}
+
+/**
+ * Add `?token=` to every segment URI of a playlist
+ * For players that request segments themselves and can't send an Authorization header.
+ */
+function addPlaylistToken(playlist: string, token: string): string {
+  const query = `token=${encodeURIComponent(token)}`;
+  return playlist
+    .split('\n')
+    .map((line) => {
+      const uri = line.trim();
+      if (!uri || uri.startsWith('#')) {
+        return line;
+      }
+      return `${uri}${uri.includes('?') ? '&' : '?'}${query}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Minimal player page for the preview playlist
+ * Uses hls.js (loaded from the jsDelivr CDN) where the browser has no native HLS; the bearer
+ * token (if any) is taken from the page's own `?token=` and sent with every playlist/segment
+ * request. Native players only get it on the playlist, whose segment URIs then carry it.
+ */
+function renderPreviewPage(streamId: string, pageUrl: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Preview ${streamId}</title>
+  <style>
+    body { margin: 0; background: #111; color: #ccc; font-family: sans-serif; }
+    video { display: block; width: 100%; max-height: 90vh; background: #000; }
+    p { padding: 0 1em; font-size: 0.9em; }
+  </style>
+  <script src="https://cdn.jsdelivr.net/npm/hls.js@1"></script>
+</head>
+<body>
+  <video id="video" controls autoplay muted playsinline></video>
+  <p>Stream ${streamId} &middot; low-bitrate preview, a few seconds behind the live output. Unmute to check audio.</p>
+  <script>
+    var video = document.getElementById('video');
+    var token = new URLSearchParams(location.search).get('token');
+    var src = '${pageUrl}/${PREVIEW_PLAYLIST}';
+    if (window.Hls && Hls.isSupported()) {
+      var hls = new Hls({
+        liveSyncDurationCount: 2,
+        xhrSetup: function (xhr) {
+          if (token) { xhr.setRequestHeader('Authorization', 'Bearer ' + token); }
+        }
+      });
+      hls.loadSource(src);
+      hls.attachMedia(video);
+    } else {
+      video.src = token ? src + '?token=' + encodeURIComponent(token) : src;
+    }
+  </script>
+</body>
+</html>
+`;
+}
+
+export { PREVIEW_PLAYLIST, addPlaylistToken, buildPreviewArgs, renderPreviewPage };
@@ -0,0 +1,271 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Logger, createLogger } from './logger';
+
+interface PulseSink {
+  index: number;
+  name: string;
+  driver: string;
+  sampleSpec: string;
+  state: string;
+}
+
+type PulseSource = PulseSink;
+
+interface PulseSinkInput {
+  index: number;
+  // Index of the sink it plays into
+  sink: number;
+  client: string;
+  driver: string;
+  sampleSpec: string;
+}
+
+interface PulseModule {
+  index: number;
+  name: string;
+  argument: string;
+}
+
+interface PulseServerInfo {
+  serverString: string;
+  defaultSink: string;
+  defaultSource: string;
+}
+
+/**
+ * A pactl/pulseaudio command failed
+ */
+class PulseAudioError extends Error {
+  constructor(
+    message: string,
+    public command: string[],
+    public stderr: string,
+    public exitCode: number | null
+  ) {
+    super(message);
+  }
+}
+
+const COMMAND_TIMEOUT = 5000;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Typed wrapper around pactl for one stream
+ * Every module loaded through `loadModule` is remembered and unloaded again by `unloadAll`,
+ * so a stopped stream leaves nothing behind in the shared daemon.
+ * Commands run asynchronously: several streams share one event loop, and pactl can hang.
+ */
+class PulseAudioManager {
+  private loadedModules: number[] = [];
+  private log: Logger;
+
+  // `logger` defaults to a plain `pulse` logger
+  constructor(private env: NodeJS.ProcessEnv, logger?: Logger) {
+    this.log = logger ?? createLogger('pulse');
+  }
+
+  /**
+   * Whether the daemon answers on its socket
+   */
+  async isReachable(): Promise<boolean> {
+    try {
+      await this.run('pactl', ['info'], 1000);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  async isDaemonRunning(): Promise<boolean> {
+    try {
+      await this.run('pulseaudio', ['--check']);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Start a per-user daemon that never exits on idle
+   * `--daemonize` works in containers; `--start` is the fallback for desktop setups.
+   */
+  async startDaemon(): Promise<void> {
+    const options = ['--exit-idle-time=-1', '--system=false', '--disallow-exit'];
+    try {
+      await this.run('pulseaudio', ['--kill']);
+    } catch (e) {
+      // Nothing to kill
+    }
+    try {
+      await this.run('pulseaudio', [...options, '--daemonize']);
+    } catch (e) {
+      this.log.info('pulseaudio --daemonize failed, trying --start...');
+      await this.run('pulseaudio', ['--start', ...options]);
+    }
+  }
+
+  /**
+   * Poll until the daemon answers, or give up after `timeout` ms
+   */
+  async waitUntilReachable(timeout: number): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      if (await this.isReachable()) {
+        return true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    return false;
+  }
+
+  async info(): Promise<PulseServerInfo> {
+    const output = await this.run('pactl', ['info']);
+    const field = (label: string) => output.match(new RegExp(`^${label}: (.*)$`, 'm'))?.[1].trim() ?? '';
+    return {
+      serverString: field('Server String'),
+      defaultSink: field('Default Sink'),
+      defaultSource: field('Default Source'),
+    };
+  }
+
+  async listSinks(): Promise<PulseSink[]> {
+    return (await this.listShort('sinks')).map(([index, name, driver, sampleSpec, state]) => ({
+      index: parseInt(index),
+      name,
+      driver,
+      sampleSpec,
+      state,
+    }));
+  }
+
+  async listSources(): Promise<PulseSource[]> {
+    return (await this.listShort('sources')).map(([index, name, driver, sampleSpec, state]) => ({
+      index: parseInt(index),
+      name,
+      driver,
+      sampleSpec,
+      state,
+    }));
+  }
+
+  async listSinkInputs(): Promise<PulseSinkInput[]> {
+    return (await this.listShort('sink-inputs')).map(([index, sink, client, driver, sampleSpec]) => ({
+      index: parseInt(index),
+      sink: parseInt(sink),
+      client,
+      driver,
+      sampleSpec,
+    }));
+  }
+
+  async listModules(): Promise<PulseModule[]> {
+    return (await this.listShort('modules')).map(([index, name, argument = '']) => ({
+      index: parseInt(index),
+      name,
+      argument,
+    }));
+  }
+
+  async hasSink(name: string): Promise<boolean> {
+    return (await this.listSinks()).some((sink) => sink.name === name);
+  }
+
+  async hasSource(name: string): Promise<boolean> {
+    return (await this.listSources()).some((source) => source.name === name);
+  }
+
+  /**
+   * Sink inputs currently playing into the named sink
+   */
+  async sinkInputsOf(sinkName: string): Promise<PulseSinkInput[]> {
+    const sink = (await this.listSinks()).find((candidate) => candidate.name === sinkName);
+    return sink ? (await this.listSinkInputs()).filter((input) => input.sink === sink.index) : [];
+  }
+
+  /**
+   * Sink inputs of applications playing into the named sink
+   * Leaves out streams PulseAudio modules play themselves (e.g. our module-loopback routing),
+   * which exist whether or not anything makes a sound.
+   */
+  async applicationInputsOf(sinkName: string): Promise<PulseSinkInput[]> {
+    return (await this.sinkInputsOf(sinkName)).filter((input) => !input.driver.startsWith('module-'));
+  }
+
+  /**
+   * Load a module and remember its ID for `unloadAll`
+   */
+  async loadModule(name: string, args: Record<string, string | number> = {}): Promise<number> {
+    const argList = Object.entries(args).map(([key, value]) => `${key}=${value}`);
+    const output = (await this.run('pactl', ['load-module', name, ...argList])).trim();
+    const id = parseInt(output);
+    if (isNaN(id)) {
+      throw new PulseAudioError(`pactl load-module ${name} returned "${output}"`, ['pactl', 'load-module', name, ...argList], '', 0);
+    }
+    this.loadedModules.push(id);
+    return id;
+  }
+
+  async unloadModule(id: number): Promise<void> {
+    await this.run('pactl', ['unload-module', id.toString()]);
+    this.loadedModules = this.loadedModules.filter((loaded) => loaded !== id);
+  }
+
+  /**
+   * Unload every module this manager loaded, newest first (loopbacks before the sinks they use)
+   */
+  async unloadAll(): Promise<void> {
+    for (const id of [...this.loadedModules].reverse()) {
+      try {
+        await this.unloadModule(id);
+      } catch (e) {
+        this.log.warn(`Could not unload PulseAudio module ${id}: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+    this.loadedModules = [];
+  }
+
+  get modules(): number[] {
+    return [...this.loadedModules];
+  }
+
+  async moveSinkInput(input: number, sinkName: string): Promise<void> {
+    await this.run('pactl', ['move-sink-input', input.toString(), sinkName]);
+  }
+
+  async setSinkMute(name: string, muted: boolean): Promise<void> {
+    await this.run('pactl', ['set-sink-mute', name, muted ? '1' : '0']);
+  }
+
+  async setDefaultSink(name: string): Promise<void> {
+    await this.run('pactl', ['set-default-sink', name]);
+  }
+
+  async setDefaultSource(name: string): Promise<void> {
+    await this.run('pactl', ['set-default-source', name]);
+  }
+
+  // Rows of tab-separated fields from `pactl list short <type>`
+  private async listShort(type: string): Promise<string[][]> {
+    return (await this.run('pactl', ['list', 'short', type]))
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => line.split('\t'));
+  }
+
+  private async run(command: string, args: string[], timeout: number = COMMAND_TIMEOUT): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(command, args, { env: this.env, encoding: 'utf8', timeout });
+      return stdout;
+    } catch (error: any) {
+      const stderr = error.stderr ? error.stderr.toString().trim() : '';
+      const reason = error.code === 'ENOENT' ? `${command} not found` : stderr || error.message;
+      // execFile reports the exit status as a numeric code, spawn failures as a string
+      const exitCode = typeof error.code === 'number' ? error.code : null;
+      throw new PulseAudioError(`${command} ${args.join(' ')} failed: ${reason}`, [command, ...args], stderr, exitCode);
+    }
+  }
+}
+
+export { PulseAudioManager, PulseAudioError, PulseSink, PulseSource, PulseSinkInput, PulseModule, PulseServerInfo };
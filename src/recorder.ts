@@ -0,0 +1,210 @@
+import { EventEmitter } from 'events';
+import { mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
+import path from 'path';
+import { FFmpegSupervisor, SupervisorOptions } from './supervisor';
+import { Logger, createLogger } from './logger';
+
+interface RecordingOptions {
+  // Directory to record into, or a file path whose name prefixes each segment (e.g. /data/show.mkv)
+  path: string;
+  // Container; defaults to the extension of `path`, otherwise mp4
+  format?: 'mp4' | 'mkv';
+  // Start a new file every N seconds (default: 600)
+  segmentTime?: number;
+  // Also start a new file once the current one reaches this many bytes
+  segmentSize?: number;
+  // Retention: keep at most this many files
+  maxFiles?: number;
+  // Retention: delete files older than this many seconds
+  maxAge?: number;
+}
+
+// How often the current segment size and retention limits are checked
+const HOUSEKEEPING_INTERVAL = 5000;
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+/**
+ * Parse a byte size such as "500M", "2G" or "1048576"
+ */
+function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)i?b?$/);
+  if (!match) {
+    throw new Error(`Invalid size "${value}" (expected e.g. 500M or 2G)`);
+  }
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2]]);
+}
+
+/**
+ * Writes the shared MPEG-TS encode to rotating MP4/MKV segments on disk
+ * FFmpeg's segment muxer rotates by duration; size rotation and retention are
+ * handled here by watching the output directory. MP4 segments are fragmented
+ * so a file cut short by a crash is still playable.
+ *
+ * Events: start, exit, restart, stable, giveup, error (from the FFmpeg process), rotate, prune
+ */
+class Recorder extends EventEmitter {
+  private supervisor: FFmpegSupervisor;
+  private timer: NodeJS.Timeout | null = null;
+  private directory: string;
+  private prefix: string;
+  private format: 'mp4' | 'mkv';
+  private segmentTime: number;
+  private runs = 0;
+  private log: Logger;
+
+  constructor(
+    private options: RecordingOptions,
+    supervision: Pick<SupervisorOptions, 'maxRestarts' | 'initialDelay' | 'maxDelay' | 'logger'> = {}
+  ) {
+    super();
+    // Its own component, with the fields (e.g. display) of the stream's FFmpeg logger
+    this.log = supervision.logger?.child('recorder') ?? createLogger('recorder');
+    const ext = path.extname(options.path).toLowerCase();
+    if (ext === '.mp4' || ext === '.mkv') {
+      this.directory = path.dirname(options.path);
+      this.prefix = path.basename(options.path, path.extname(options.path));
+      this.format = options.format ?? (ext === '.mkv' ? 'mkv' : 'mp4');
+    } else {
+      this.directory = options.path;
+      this.prefix = 'recording';
+      this.format = options.format ?? 'mp4';
+    }
+    if (this.format !== 'mp4' && this.format !== 'mkv') {
+      throw new Error(`Unsupported recording format "${this.format}" (expected mp4 or mkv)`);
+    }
+    this.segmentTime = options.segmentTime ?? 600;
+
+    this.supervisor = new FFmpegSupervisor({
+      ...supervision,
+      name: 'FFmpeg[recorder]',
+      env: process.env,
+      buildArgs: () => this.buildArgs(),
+    });
+    for (const event of ['start', 'exit', 'restart', 'stable', 'giveup', 'error']) {
+      this.supervisor.on(event, (payload) => this.emit(event, payload));
+    }
+  }
+
+  async start(): Promise<void> {
+    mkdirSync(this.directory, { recursive: true });
+    this.log.info(`Recording to ${path.join(this.directory, `${this.prefix}-*.${this.format}`)} (${this.segmentTime}s segments)`);
+    await this.supervisor.start();
+    this.timer = setInterval(() => this.housekeeping(), HOUSEKEEPING_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.supervisor.stop();
+    this.supervisor.removeAllListeners();
+  }
+
+  write(chunk: Buffer): void {
+    this.supervisor.write(chunk);
+  }
+
+  /**
+   * Reconnect to a restarted encoder (starts a new segment)
+   */
+  restartNow(): void {
+    this.supervisor.restartNow();
+  }
+
+  get status() {
+    const files = this.listSegments();
+    return {
+      ...this.supervisor.status,
+      directory: this.directory,
+      currentFile: files.length > 0 ? files[files.length - 1].file : null,
+      files: files.length,
+      bytes: files.reduce((total, segment) => total + segment.size, 0),
+    };
+  }
+
+  private buildArgs(): string[] {
+    // Numbered per FFmpeg run: a run that starts within the same second as the last segment
+    // (restart, region move, size rotation) must not reopen and truncate that file
+    this.runs++;
+    const run = String(this.runs).padStart(3, '0');
+    const pattern = path.join(this.directory, `${this.prefix}-%Y%m%d-%H%M%S-${run}.${this.format}`);
+    return [
+      '-f', 'mpegts',
+      '-i', 'pipe:0',
+      '-map', '0',
+      '-c', 'copy',
+      '-f', 'segment',
+      '-segment_time', this.segmentTime.toString(),
+      '-segment_format', this.format === 'mkv' ? 'matroska' : 'mp4',
+      ...(this.format === 'mp4'
+        ? ['-segment_format_options', 'movflags=+frag_keyframe+empty_moov+default_base_moof']
+        : []),
+      '-reset_timestamps', '1',
+      '-strftime', '1',
+      pattern,
+    ];
+  }
+
+  /**
+   * Our segments, oldest first (the timestamped names sort chronologically)
+   */
+  private listSegments(): { file: string; size: number; mtime: number }[] {
+    let names: string[];
+    try {
+      names = readdirSync(this.directory);
+    } catch (e) {
+      return [];
+    }
+    const segments: { file: string; size: number; mtime: number }[] = [];
+    for (const name of names.sort()) {
+      if (!name.startsWith(`${this.prefix}-`) || !name.endsWith(`.${this.format}`)) {
+        continue;
+      }
+      const file = path.join(this.directory, name);
+      try {
+        const stats = statSync(file);
+        segments.push({ file, size: stats.size, mtime: stats.mtimeMs });
+      } catch (e) {
+        // Deleted between readdir and stat
+      }
+    }
+    return segments;
+  }
+
+  private housekeeping(): void {
+    const segments = this.listSegments();
+    const current = segments[segments.length - 1];
+
+    const { segmentSize, maxFiles, maxAge } = this.options;
+    if (segmentSize && current && current.size >= segmentSize && this.supervisor.status.running) {
+      this.log.info(`Recording segment ${path.basename(current.file)} reached ${current.size} bytes, starting a new one`);
+      this.emit('rotate', { file: current.file, size: current.size });
+      this.supervisor.restartNow();
+    }
+
+    // Never delete the file being written
+    const finished = segments.slice(0, -1);
+    const expired = new Set<string>();
+    if (maxFiles && maxFiles > 0 && segments.length > maxFiles) {
+      finished.slice(0, segments.length - maxFiles).forEach((segment) => expired.add(segment.file));
+    }
+    if (maxAge && maxAge > 0) {
+      const cutoff = Date.now() - maxAge * 1000;
+      finished.filter((segment) => segment.mtime < cutoff).forEach((segment) => expired.add(segment.file));
+    }
+
+    for (const file of expired) {
+      try {
+        unlinkSync(file);
+        this.log.info(`Deleted old recording ${path.basename(file)}`);
+        this.emit('prune', { file });
+      } catch (e) {
+        this.log.warn(`Could not delete old recording ${file}`, { error: e });
+      }
+    }
+  }
+}
+
+export { Recorder, RecordingOptions, parseSize };
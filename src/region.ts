@@ -0,0 +1,208 @@
+import { EventEmitter } from 'events';
+import type { Page } from 'puppeteer';
+import { Logger, createLogger } from './logger';
+
+// A rectangle of the page: CSS pixels from the viewport's top-left corner
+interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RegionTrackerOptions {
+  selector: string;
+  // Seconds between looks at the element (default 5, 0 = only at start)
+  interval?: number;
+  // Device pixels per CSS pixel of the page
+  deviceScaleFactor: number;
+  // Where the tracker logs (default: a plain `region` logger)
+  logger?: Logger;
+}
+
+interface RegionTrackerHooks {
+  // The page on screen, or null when there is nothing to look at (browser relaunch, fallback)
+  getPage: () => Page | null;
+}
+
+class RegionError extends Error {}
+
+/**
+ * Check an explicit capture rectangle and return it typed
+ */
+function validateRegion(input: unknown): CaptureRegion {
+  const region = input as any;
+  if (!region || typeof region !== 'object' || Array.isArray(region)) {
+    throw new RegionError('Capture region must be an object with x, y, width and height');
+  }
+  for (const field of ['x', 'y']) {
+    if (typeof region[field] !== 'number' || region[field] < 0) {
+      throw new RegionError(`Capture region "${field}" must be a number >= 0`);
+    }
+  }
+  for (const field of ['width', 'height']) {
+    if (typeof region[field] !== 'number' || region[field] < 2) {
+      throw new RegionError(`Capture region "${field}" must be a number >= 2`);
+    }
+  }
+  return { x: region.x, y: region.y, width: region.width, height: region.height };
+}
+
+/**
+ * Parse "x,y,width,height" (e.g. from --capture-region)
+ */
+function parseRegion(value: string): CaptureRegion {
+  const parts = value.split(',').map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => isNaN(part))) {
+    throw new RegionError(`Capture region must be "x,y,width,height", got "${value}"`);
+  }
+  const [x, y, width, height] = parts;
+  return validateRegion({ x, y, width, height });
+}
+
+/**
+ * Device-pixel crop of the capture for a region of the page
+ * Clamped to the capture, with an even size so the encode stays yuv420p-friendly.
+ */
+function cropRect(region: CaptureRegion, deviceScaleFactor: number, captureWidth: number, captureHeight: number): CaptureRegion {
+  const x = Math.min(Math.max(0, Math.round(region.x * deviceScaleFactor)), captureWidth - 2);
+  const y = Math.min(Math.max(0, Math.round(region.y * deviceScaleFactor)), captureHeight - 2);
+  const width = Math.min(Math.round(region.width * deviceScaleFactor), captureWidth - x);
+  const height = Math.min(Math.round(region.height * deviceScaleFactor), captureHeight - y);
+  return { x, y, width: Math.max(2, width - (width % 2)), height: Math.max(2, height - (height % 2)) };
+}
+
+/**
+ * Where the element is in the viewport, or null if it isn't on the page (or has no size)
+ */
+async function locateElement(page: Page, selector: string): Promise<CaptureRegion | null> {
+  const box = await page.evaluate(`(() => {
+    const element = document.querySelector(${JSON.stringify(selector)});
+    if (!element) return null;
+    const rect = element.getBoundingClientRect();
+    return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+  })()`) as CaptureRegion | null;
+  return box && box.width >= 1 && box.height >= 1 ? box : null;
+}
+
+function sameRegion(a: CaptureRegion | null, b: CaptureRegion | null): boolean {
+  return a !== null && b !== null && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Follows a DOM element so the capture stays on it when the layout shifts
+ * A new position only counts once two looks in a row agree, so an animation or a reflow
+ * in progress doesn't restart FFmpeg for every frame of it.
+ *
+ * Events: move ({ region }), lost ({ selector }), found ({ region })
+ */
+class RegionTracker extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private current: CaptureRegion | null = null;
+  private candidate: CaptureRegion | null = null;
+  private lost = false;
+  private stopped = false;
+  private log: Logger;
+
+  constructor(private options: RegionTrackerOptions, private hooks: RegionTrackerHooks) {
+    super();
+    this.log = options.logger ?? createLogger('region');
+  }
+
+  get status() {
+    return {
+      selector: this.options.selector,
+      region: this.current,
+      found: this.current !== null && !this.lost,
+    };
+  }
+
+  /**
+   * Find the element once, or null if it isn't on the page (tracking keeps looking for it)
+   */
+  async locate(): Promise<CaptureRegion | null> {
+    const page = this.hooks.getPage();
+    const box = page ? await locateElement(page, this.options.selector).catch(() => null) : null;
+    this.lost = box === null;
+    this.current = box ? this.round(box) : null;
+    return this.current;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.schedule();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    const interval = this.options.interval ?? 5;
+    if (this.stopped || interval <= 0) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.check()
+        .catch((error) => this.log.debug(`Could not locate ${this.options.selector}`, { error }))
+        .finally(() => this.schedule());
+    }, interval * 1000);
+  }
+
+  private async check(): Promise<void> {
+    const page = this.hooks.getPage();
+    if (!page) {
+      return;
+    }
+    const box = await locateElement(page, this.options.selector);
+    if (this.stopped) {
+      return;
+    }
+    if (!box) {
+      // Keep capturing where it was; it may come back (e.g. after the next playlist page)
+      if (!this.lost) {
+        this.lost = true;
+        this.candidate = null;
+        this.log.warn(`Capture element "${this.options.selector}" is gone, keeping the last region`);
+        this.emit('lost', { selector: this.options.selector });
+      }
+      return;
+    }
+
+    const region = this.round(box);
+    if (this.lost) {
+      this.lost = false;
+      this.emit('found', { region });
+    }
+    if (sameRegion(region, this.current)) {
+      this.candidate = null;
+      return;
+    }
+    if (!sameRegion(region, this.candidate)) {
+      this.candidate = region;
+      return;
+    }
+    this.log.info(`Capture element moved to ${region.width}x${region.height} at ${region.x},${region.y}`);
+    this.current = region;
+    this.candidate = null;
+    this.emit('move', { region });
+  }
+
+  // Whole device pixels, so sub-pixel jitter doesn't count as a move
+  private round(box: CaptureRegion): CaptureRegion {
+    const scale = this.options.deviceScaleFactor;
+    return {
+      x: Math.round(box.x * scale) / scale,
+      y: Math.round(box.y * scale) / scale,
+      width: Math.round(box.width * scale) / scale,
+      height: Math.round(box.height * scale) / scale,
+    };
+  }
+}
+
+export { CaptureRegion, RegionError, RegionTracker, validateRegion, parseRegion, cropRect };
@@ -0,0 +1,430 @@
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { createLogger } from './logger';
+
+const log = createLogger('scheduler');
+
+type ScheduleWindow =
+  // Starts whenever the cron expression matches and lasts `duration` minutes
+  | { cron: string; duration: number; timezone?: string }
+  // Fixed slot; times without an offset are read in the window's time zone
+  | { start: string; end: string; timezone?: string };
+
+interface ScheduleOptions {
+  windows: ScheduleWindow[];
+  // IANA time zone for windows that don't name one (default: the system's)
+  timezone?: string;
+  // Between windows: stop streaming ("disconnect", the default) or stream an offline slate
+  offline?: 'disconnect' | 'slate';
+  // Page shown as the offline slate (default: a plain slate with offlineText)
+  offlineUrl?: string;
+  offlineText?: string;
+  offlineColor?: string;
+}
+
+type ScheduleState = 'live' | 'offline';
+
+interface SchedulerHooks {
+  // Bring the stream into this state; a throw is retried on the next check
+  enter: (state: ScheduleState) => Promise<void>;
+}
+
+class ScheduleError extends Error {}
+
+const CHECK_INTERVAL = 30000;
+
+// How far ahead `nextChange` looks for the next window edge
+const LOOKAHEAD_MINUTES = 8 * 24 * 60;
+const MINUTE = 60000;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// minute, hour, day of month, month, day of week
+const CRON_FIELDS: { min: number; max: number; names?: string[] }[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: MONTH_NAMES },
+  { min: 0, max: 7, names: DAY_NAMES },
+];
+
+interface CronExpression {
+  fields: Set<number>[];
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  anyDay: boolean;
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock fields of a moment in a time zone
+function wallClock(date: Date, timezone: string): WallClock {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+  };
+}
+
+// UTC time of a wall-clock time in a time zone (twice, to settle on the offset after a DST change)
+function zonedTime(year: number, month: number, day: number, hour: number, minute: number, second: number, timezone: string): number {
+  const target = Date.UTC(year, month - 1, day, hour, minute, second);
+  let guess = target;
+  for (let i = 0; i < 2; i++) {
+    const clock = wallClock(new Date(guess), timezone);
+    const shown = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, second);
+    guess += target - shown;
+  }
+  return guess;
+}
+
+function parseCronField(value: string, field: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string): number => {
+    const named = field.names?.indexOf(token.toLowerCase()) ?? -1;
+    const number = named !== -1 ? named + field.min : /^\d+$/.test(token) ? parseInt(token) : NaN;
+    if (isNaN(number) || number < field.min || number > field.max) {
+      throw new ScheduleError(`"${token}" is out of range ${field.min}-${field.max}`);
+    }
+    return number;
+  };
+
+  for (const item of value.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText);
+    if (!(step > 0)) {
+      throw new ScheduleError(`bad step in "${item}"`);
+    }
+    let from = field.min;
+    let to = field.max;
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = toNumber(start);
+      to = end !== undefined ? toNumber(end) : stepText !== undefined ? field.max : from;
+    }
+    for (let number = from; number <= to; number += step) {
+      values.add(number);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ * Supports `*`, lists, ranges, steps and month/day names; Sunday is 0 or 7.
+ */
+function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new ScheduleError(`Cron expression "${expression}" needs 5 fields (minute hour day month weekday)`);
+  }
+  try {
+    const fields = parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]));
+    if (fields[4].has(7)) {
+      fields[4].add(0);
+    }
+    return { fields, anyDay: parts[2] !== '*' && parts[4] !== '*' };
+  } catch (error) {
+    throw new ScheduleError(`Cron expression "${expression}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function cronMatches(cron: CronExpression, clock: WallClock): boolean {
+  const [minutes, hours, days, months, weekdays] = cron.fields;
+  const dayOfMonth = days.has(clock.day);
+  const dayOfWeek = weekdays.has(clock.weekday);
+  return minutes.has(clock.minute)
+    && hours.has(clock.hour)
+    && months.has(clock.month)
+    && (cron.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek);
+}
+
+// An explicit window time: local to the time zone unless it carries its own offset
+function parseWindowTime(value: string, timezone: string): number {
+  const local = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (local) {
+    const [, year, month, day, hour, minute, second = '0'] = local;
+    return zonedTime(+year, +month, +day, +hour, +minute, +second, timezone);
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new ScheduleError(`"${value}" is not a date and time like 2025-06-01T09:00`);
+  }
+  return time;
+}
+
+function checkTimezone(timezone: string, where: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch (e) {
+    throw new ScheduleError(`${where}: unknown time zone "${timezone}"`);
+  }
+}
+
+/**
+ * Check a schedule's shape and return it typed
+ * Accepts a bare list of windows or an object with a `windows` list.
+ */
+function validateSchedule(input: unknown): ScheduleOptions {
+  const schedule = (Array.isArray(input) ? { windows: input } : input) as any;
+  if (!schedule || !Array.isArray(schedule.windows) || schedule.windows.length === 0) {
+    throw new ScheduleError('Schedule needs a non-empty "windows" list');
+  }
+  if (schedule.timezone !== undefined) {
+    checkTimezone(schedule.timezone, 'Schedule');
+  }
+  if (schedule.offline !== undefined && schedule.offline !== 'disconnect' && schedule.offline !== 'slate') {
+    throw new ScheduleError('Schedule "offline" must be "disconnect" or "slate"');
+  }
+  const timezone = schedule.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  schedule.windows.forEach((window: any, index: number) => {
+    const where = `Schedule window ${index + 1}`;
+    if (window?.timezone !== undefined) {
+      checkTimezone(window.timezone, where);
+    }
+    if (typeof window?.cron === 'string') {
+      try {
+        parseCron(window.cron);
+      } catch (error) {
+        throw new ScheduleError(`${where}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (typeof window.duration !== 'number' || window.duration <= 0) {
+        throw new ScheduleError(`${where}: "duration" must be a number of minutes > 0`);
+      }
+      if (window.duration > LOOKAHEAD_MINUTES) {
+        throw new ScheduleError(`${where}: "duration" can be at most ${LOOKAHEAD_MINUTES} minutes`);
+      }
+    } else if (typeof window?.start === 'string' && typeof window.end === 'string') {
+      let start: number;
+      let end: number;
+      try {
+        start = parseWindowTime(window.start, window.timezone ?? timezone);
+        end = parseWindowTime(window.end, window.timezone ?? timezone);
+      } catch (error) {
+        throw new ScheduleError(`${where}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (end <= start) {
+        throw new ScheduleError(`${where}: "end" must be after "start"`);
+      }
+    } else {
+      throw new ScheduleError(`${where}: needs "cron" and "duration", or "start" and "end"`);
+    }
+  });
+  return schedule as ScheduleOptions;
+}
+
+/**
+ * Load a schedule from a .json, .yaml or .yml file
+ */
+function loadSchedule(file: string): ScheduleOptions {
+  const content = readFileSync(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (e) {
+    throw new ScheduleError(`Could not parse schedule ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  return validateSchedule(parsed);
+}
+
+/**
+ * Page streamed between windows when `offline` is "slate"
+ */
+function offlineSlateUrl(options: ScheduleOptions): string {
+  if (options.offlineUrl) {
+    return options.offlineUrl;
+  }
+  const text = (options.offlineText ?? 'We are offline. See you soon!')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const color = (options.offlineColor ?? '#000').replace(/[;"<>]/g, '');
+  const html = '<!DOCTYPE html><html><body style="margin:0;height:100vh;display:flex;align-items:center;'
+    + `justify-content:center;background:${color};color:#fff;font:bold 64px sans-serif">${text}</body></html>`;
+  return `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
+}
+
+type CompiledWindow =
+  | { kind: 'cron'; cron: CronExpression; duration: number; timezone: string }
+  | { kind: 'fixed'; start: number; end: number };
+
+/**
+ * Starts and stops a stream on a schedule
+ * Checks every 30 seconds whether a window is open and asks the hooks to go live or offline
+ * when that changes. A failed change is retried on the next check.
+ *
+ * Events: live ({ until }), offline ({ until }), failed ({ state, message })
+ */
+class StreamScheduler extends EventEmitter {
+  private windows: CompiledWindow[];
+  private state: ScheduleState | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private busy = false;
+
+  constructor(private options: ScheduleOptions, private hooks: SchedulerHooks) {
+    super();
+    const timezone = options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    this.windows = options.windows.map((window): CompiledWindow => ('cron' in window
+      ? { kind: 'cron', cron: parseCron(window.cron), duration: window.duration, timezone: window.timezone ?? timezone }
+      : {
+          kind: 'fixed',
+          start: parseWindowTime(window.start, window.timezone ?? timezone),
+          end: parseWindowTime(window.end, window.timezone ?? timezone),
+        }));
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL);
+    this.check();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Whether any window is open at `time`
+   */
+  isLive(time: number = Date.now()): boolean {
+    return this.windows.some((window) => {
+      if (window.kind === 'fixed') {
+        return time >= window.start && time < window.end;
+      }
+      // Open if the cron matched within the last `duration` minutes
+      const minute = Math.floor(time / MINUTE) * MINUTE;
+      for (let offset = 0; offset < window.duration; offset++) {
+        if (cronMatches(window.cron, wallClock(new Date(minute - offset * MINUTE), window.timezone))) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  /**
+   * When the schedule next switches between live and offline, or null if not within the lookahead
+   */
+  nextChange(from: number = Date.now()): Date | null {
+    const live = this.isLive(from);
+    const first = Math.floor(from / MINUTE) * MINUTE + MINUTE;
+
+    // Fixed windows can change mid-minute
+    const edges = this.windows
+      .flatMap((window) => (window.kind === 'fixed' ? [window.start, window.end] : []))
+      .filter((edge) => edge > from && edge < first)
+      .sort((a, b) => a - b);
+    for (const edge of edges) {
+      if (this.isLive(edge) !== live) {
+        return new Date(edge);
+      }
+    }
+
+    // Open minutes of every cron window, found in one pass per window
+    const cronOpen = this.windows
+      .filter((window): window is Extract<CompiledWindow, { kind: 'cron' }> => window.kind === 'cron')
+      .map((window) => {
+        const open: boolean[] = [];
+        let sinceMatch = Infinity;
+        for (let index = -window.duration + 1; index < LOOKAHEAD_MINUTES; index++) {
+          const clock = wallClock(new Date(first + index * MINUTE), window.timezone);
+          sinceMatch = cronMatches(window.cron, clock) ? 0 : sinceMatch + 1;
+          if (index >= 0) {
+            open.push(sinceMatch < window.duration);
+          }
+        }
+        return open;
+      });
+
+    for (let index = 0; index < LOOKAHEAD_MINUTES; index++) {
+      const time = first + index * MINUTE;
+      const fixedOpen = this.windows.some((window) => window.kind === 'fixed' && time >= window.start && time < window.end);
+      if ((fixedOpen || cronOpen.some((open) => open[index])) !== live) {
+        return new Date(time);
+      }
+    }
+    return null;
+  }
+
+  get status() {
+    return {
+      state: this.state,
+      next: this.nextChange()?.toISOString() ?? null,
+    };
+  }
+
+  private check(): void {
+    if (this.busy) {
+      return;
+    }
+    const wanted: ScheduleState = this.isLive() ? 'live' : 'offline';
+    if (wanted === this.state) {
+      return;
+    }
+
+    this.busy = true;
+    const until = this.nextChange();
+    log.info(`Going ${wanted}${until ? ` until ${until.toISOString()}` : ''}`);
+    this.hooks.enter(wanted)
+      .then(() => {
+        this.state = wanted;
+        this.emit(wanted, { until: until?.toISOString() ?? null });
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error(`Could not go ${wanted}: ${message}`);
+        // Force a retry on the next check
+        this.state = null;
+        this.emit('failed', { state: wanted, message });
+      })
+      .finally(() => {
+        this.busy = false;
+      });
+  }
+}
+
+export {
+  ScheduleWindow,
+  ScheduleOptions,
+  ScheduleState,
+  ScheduleError,
+  StreamScheduler,
+  validateSchedule,
+  loadSchedule,
+  offlineSlateUrl,
+};
@@ -0,0 +1,133 @@
+import type { CDPSession, Page, Protocol } from 'puppeteer';
+import { Logger, createLogger } from './logger';
+
+// How the page's picture gets to FFmpeg:
+// screen grabs the display the browser window is on (Xvfb + x11grab on Linux),
+// screencast pulls frames from a headless browser over the DevTools protocol
+type CaptureBackend = 'screen' | 'screencast';
+
+const CAPTURE_BACKENDS: CaptureBackend[] = ['screen', 'screencast'];
+
+interface ScreencastOptions {
+  // Frames per second written to FFmpeg
+  fps: number;
+  // Largest frame size in device pixels (the capture size)
+  maxWidth: number;
+  maxHeight: number;
+  // JPEG quality 0-100 (default 80)
+  quality?: number;
+  // Where the capture logs (default: a plain `screencast` logger)
+  logger?: Logger;
+}
+
+interface ScreencastHooks {
+  // Hand one JPEG frame to FFmpeg
+  write: (frame: Buffer) => void;
+}
+
+/**
+ * FFmpeg input for the JPEG frames written to its stdin
+ * Timestamps are taken on arrival, like a screen grab, so the picture stays in step with live audio.
+ */
+function screencastInputArgs(fps: number): string[] {
+  return [
+    '-f', 'image2pipe',
+    '-use_wallclock_as_timestamps', '1',
+    '-framerate', fps.toString(),
+    '-c:v', 'mjpeg',
+    '-i', 'pipe:0',
+  ];
+}
+
+/**
+ * Captures a page through the DevTools protocol (Page.startScreencast) and feeds FFmpeg at a steady rate
+ * Chromium only sends a frame when something on the page changed, so the latest frame is
+ * repeated at `fps` to keep the stream going while the page is still. Attach again after the
+ * browser was relaunched; navigations in the same tab keep the screencast running.
+ */
+class ScreencastCapture {
+  private session: CDPSession | null = null;
+  private pumpTimer: NodeJS.Timeout | null = null;
+  private frame: Buffer | null = null;
+  private frames = 0;
+  private lastFrameAt: number | null = null;
+  private frameSize: { width: number; height: number } | null = null;
+  private log: Logger;
+
+  constructor(private options: ScreencastOptions, private hooks: ScreencastHooks) {
+    this.log = options.logger ?? createLogger('screencast');
+  }
+
+  get status() {
+    return {
+      attached: this.session !== null,
+      framesReceived: this.frames,
+      lastFrameAt: this.lastFrameAt ? new Date(this.lastFrameAt).toISOString() : null,
+      frameSize: this.frameSize,
+    };
+  }
+
+  /**
+   * Start the screencast on a page (replacing the one on a previous page)
+   */
+  async attach(page: Page): Promise<void> {
+    await this.detach();
+    const { maxWidth, maxHeight, quality = 80 } = this.options;
+    const session = await page.createCDPSession();
+    this.session = session;
+
+    session.on('Page.screencastFrame', (event: Protocol.Page.ScreencastFrameEvent) => {
+      this.frame = Buffer.from(event.data, 'base64');
+      this.frames++;
+      this.lastFrameAt = Date.now();
+      this.frameSize = { width: event.metadata.deviceWidth, height: event.metadata.deviceHeight };
+      // Chromium holds back further frames until this one is acknowledged
+      session.send('Page.screencastFrameAck', { sessionId: event.sessionId }).catch(() => {});
+    });
+
+    await session.send('Page.startScreencast', { format: 'jpeg', quality, maxWidth, maxHeight, everyNthFrame: 1 });
+    // A page that doesn't change sends nothing; start from a screenshot so FFmpeg has a picture right away
+    if (!this.frame) {
+      const { data } = await session.send('Page.captureScreenshot', { format: 'jpeg', quality });
+      this.frame = this.frame ?? Buffer.from(data, 'base64');
+    }
+    this.log.info(`Screencast attached (up to ${maxWidth}x${maxHeight}, JPEG quality ${quality})`);
+  }
+
+  /**
+   * Write the latest frame `fps` times per second
+   */
+  start(): void {
+    if (this.pumpTimer) {
+      return;
+    }
+    this.pumpTimer = setInterval(() => {
+      if (this.frame) {
+        this.hooks.write(this.frame);
+      }
+    }, 1000 / this.options.fps);
+  }
+
+  async stop(): Promise<void> {
+    if (this.pumpTimer) {
+      clearInterval(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+    await this.detach();
+    this.frame = null;
+  }
+
+  private async detach(): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    this.session = null;
+    session.removeAllListeners('Page.screencastFrame');
+    // The browser may already be gone (crash, relaunch)
+    await session.send('Page.stopScreencast').catch(() => {});
+    await session.detach().catch(() => {});
+  }
+}
+
+export { CaptureBackend, CAPTURE_BACKENDS, ScreencastCapture, screencastInputArgs };
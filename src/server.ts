@@ -0,0 +1,343 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { createReadStream, existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { StreamConfig } from './index';
+import { StreamManager, ManagedStream, StreamLimitError } from './stream-manager';
+import { PREVIEW_PLAYLIST, addPlaylistToken, renderPreviewPage } from './preview';
+import { OverlayError } from './overlays';
+import { ConfigError, validateStreamConfig } from './config';
+import { renderMetrics } from './metrics';
+import { createLogger, redactUrl } from './logger';
+
+const log = createLogger('api');
+
+interface ControlServerOptions {
+  port: number;
+  host?: string;
+  token?: string;
+  manager: StreamManager;
+}
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+const MAX_BODY_SIZE = 1024 * 1024;
+
+// The preview player page and its playlist/segment files
+const PREVIEW_PATH = /^\/streams\/([^/]+)\/preview(?:\/([^/]+))?$/;
+
+const PREVIEW_CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+};
+
+/**
+ * HTTP control API for starting, stopping and inspecting streams
+ */
+class ControlServer {
+  private server: http.Server | null = null;
+  private startedAt: Date = new Date();
+
+  constructor(private options: ControlServerOptions) {}
+
+  /**
+   * Start listening for control requests
+   */
+  async start(): Promise<void> {
+    const { port, host = '0.0.0.0' } = this.options;
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const statusCode = error instanceof HttpError ? error.statusCode : 500;
+        if (statusCode === 500) {
+          log.error('Control API error', { error });
+        }
+        this.sendJson(res, statusCode, { error: error.message || String(error) });
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => {
+        this.server!.off('error', reject);
+        log.info(`Control API listening on http://${host}:${port}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Close the HTTP server (streams are owned by the StreamManager)
+   */
+  async stop(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method || 'GET';
+    const [rawPath, query = ''] = (req.url || '/').split('?');
+    const path = rawPath.replace(/\/+$/, '') || '/';
+
+    if (method === 'GET' && path === '/health') {
+      this.sendJson(res, 200, {
+        status: 'ok',
+        uptime: Math.round((Date.now() - this.startedAt.getTime()) / 1000),
+        activeStreams: this.options.manager.active().length,
+      });
+      return;
+    }
+
+    this.authorize(req, method, path, new URLSearchParams(query));
+
+    if (method === 'GET' && path === '/metrics') {
+      const uptime = (Date.now() - this.startedAt.getTime()) / 1000;
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(renderMetrics(this.options.manager.list(), uptime));
+      return;
+    }
+
+    if (path === '/streams') {
+      if (method === 'GET') {
+        this.sendJson(res, 200, this.options.manager.list().map((entry) => this.serialize(entry)));
+        return;
+      }
+      if (method === 'POST') {
+        const config = this.parseConfig(await this.readBody(req));
+        let entry: ManagedStream;
+        try {
+          entry = this.options.manager.create(config);
+        } catch (error) {
+          if (error instanceof StreamLimitError) {
+            throw new HttpError(409, error.message);
+          }
+          throw error;
+        }
+        this.sendJson(res, 202, this.serialize(entry));
+        return;
+      }
+      throw new HttpError(405, `Method ${method} not allowed on /streams`);
+    }
+
+    const eventsMatch = path.match(/^\/streams\/([^/]+)\/events$/);
+    if (eventsMatch && method === 'GET') {
+      const entry = this.options.manager.get(decodeURIComponent(eventsMatch[1]));
+      if (!entry) {
+        throw new HttpError(404, `Stream ${eventsMatch[1]} not found`);
+      }
+      this.sendJson(res, 200, entry.events);
+      return;
+    }
+
+    const overlayMatch = path.match(/^\/streams\/([^/]+)\/overlays(?:\/([^/]+))?$/);
+    if (overlayMatch) {
+      await this.handleOverlays(req, res, method, decodeURIComponent(overlayMatch[1]), overlayMatch[2] && decodeURIComponent(overlayMatch[2]));
+      return;
+    }
+
+    const previewMatch = path.match(PREVIEW_PATH);
+    if (previewMatch && method === 'GET') {
+      this.servePreview(res, decodeURIComponent(previewMatch[1]), previewMatch[2], path, new URLSearchParams(query).get('token'));
+      return;
+    }
+
+    const match = path.match(/^\/streams\/([^/]+)$/);
+    if (match) {
+      const entry = this.options.manager.get(decodeURIComponent(match[1]));
+      if (!entry) {
+        throw new HttpError(404, `Stream ${match[1]} not found`);
+      }
+      if (method === 'GET') {
+        this.sendJson(res, 200, this.serialize(entry));
+        return;
+      }
+      if (method === 'DELETE') {
+        await this.options.manager.stop(entry.id);
+        this.sendJson(res, 200, this.serialize(entry));
+        return;
+      }
+      throw new HttpError(405, `Method ${method} not allowed on /streams/:id`);
+    }
+
+    throw new HttpError(404, `No route for ${method} ${path}`);
+  }
+
+  /**
+   * GET /streams/:id/overlays lists overlays; PATCH /streams/:id/overlays/:overlayId changes one
+   */
+  private async handleOverlays(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    id: string,
+    overlayId: string | undefined
+  ): Promise<void> {
+    const entry = this.options.manager.get(id);
+    if (!entry) {
+      throw new HttpError(404, `Stream ${id} not found`);
+    }
+    if (!overlayId) {
+      if (method !== 'GET') {
+        throw new HttpError(405, `Method ${method} not allowed on /streams/:id/overlays`);
+      }
+      this.sendJson(res, 200, entry.streamer.overlays);
+      return;
+    }
+    if (method !== 'PATCH') {
+      throw new HttpError(405, `Method ${method} not allowed on /streams/:id/overlays/:overlayId`);
+    }
+    if (entry.status !== 'running') {
+      throw new HttpError(409, `Stream ${id} is ${entry.status}`);
+    }
+    if (!entry.streamer.overlays.some((overlay) => overlay.id === overlayId)) {
+      throw new HttpError(404, `Overlay ${overlayId} not found`);
+    }
+
+    let patch: any;
+    try {
+      patch = JSON.parse((await this.readBody(req)) || '{}');
+    } catch (e) {
+      throw new HttpError(400, 'Request body must be valid JSON');
+    }
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      throw new HttpError(400, 'Request body must be a JSON object');
+    }
+    try {
+      this.sendJson(res, 200, entry.streamer.updateOverlay(overlayId, patch));
+    } catch (error) {
+      if (error instanceof OverlayError) {
+        throw new HttpError(400, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private authorize(req: IncomingMessage, method: string, path: string, query: URLSearchParams): void {
+    if (!this.options.token) {
+      return;
+    }
+    if (req.headers.authorization === `Bearer ${this.options.token}`) {
+      return;
+    }
+    // Browsers opening the preview page can't set headers, so the preview alone may pass ?token= instead
+    // (anywhere else it would only end up in access logs and browser history)
+    if (method === 'GET' && PREVIEW_PATH.test(path) && query.get('token') === this.options.token) {
+      return;
+    }
+    throw new HttpError(401, 'Missing or invalid bearer token');
+  }
+
+  /**
+   * Serve the preview player page, or a playlist/segment file from the stream's preview directory
+   */
+  private servePreview(res: ServerResponse, id: string, file: string | undefined, requestPath: string, token: string | null): void {
+    const entry = this.options.manager.get(id);
+    if (!entry) {
+      throw new HttpError(404, `Stream ${id} not found`);
+    }
+    const directory = entry.streamer.previewDirectory;
+    if (!directory) {
+      throw new HttpError(404, `Stream ${id} has no preview (start it with "preview": true)`);
+    }
+
+    if (!file) {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(renderPreviewPage(entry.id, requestPath));
+      return;
+    }
+
+    const contentType = PREVIEW_CONTENT_TYPES[path.extname(file)];
+    const filePath = path.join(directory, file);
+    if (!contentType || !/^[\w.-]+$/.test(file) || !existsSync(filePath)) {
+      throw new HttpError(404, `Preview file ${file} not found`);
+    }
+    // Native HLS players fetch segments without the page's token, so hand it on in their URIs
+    if (token && file === PREVIEW_PLAYLIST) {
+      res.writeHead(200, { 'Content-Type': contentType, 'Cache-Control': 'no-cache' });
+      res.end(addPlaylistToken(readFileSync(filePath, 'utf8'), token));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': contentType, 'Cache-Control': 'no-cache' });
+    createReadStream(filePath).on('error', () => res.destroy()).pipe(res);
+  }
+
+  private parseConfig(body: string): StreamConfig {
+    let config: any;
+    try {
+      config = JSON.parse(body || '{}');
+    } catch (e) {
+      throw new HttpError(400, 'Request body must be valid JSON');
+    }
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new HttpError(400, 'Request body must be a JSON object');
+    }
+    // The same checks as a config file, flags and environment variables
+    try {
+      return validateStreamConfig(config);
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        throw new HttpError(400, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length > MAX_BODY_SIZE) {
+          reject(new HttpError(413, 'Request body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private serialize(entry: ManagedStream) {
+    return {
+      id: entry.id,
+      status: entry.status,
+      display: `:${entry.slot.displayNumber}`,
+      sink: entry.slot.sinkName,
+      url: entry.config.url,
+      rtmpsUrl: Array.isArray(entry.config.rtmpsUrl)
+        ? entry.config.rtmpsUrl.map((url) => redactUrl(url))
+        : entry.config.rtmpsUrl && redactUrl(entry.config.rtmpsUrl),
+      createdAt: entry.createdAt.toISOString(),
+      startedAt: entry.startedAt?.toISOString(),
+      stoppedAt: entry.stoppedAt?.toISOString(),
+      error: entry.error,
+      ffmpeg: entry.streamer.ffmpegStatus,
+      browserRestarts: entry.streamer.browserRestartCount,
+      audio: entry.streamer.audioLevels,
+      outputs: entry.streamer.outputStatus,
+      recording: entry.streamer.recordingStatus,
+      preview: entry.streamer.previewDirectory ? `/streams/${entry.id}/preview` : null,
+      playlist: entry.streamer.playlistStatus,
+      fallback: entry.streamer.fallbackStatus,
+      capture: entry.streamer.captureStatus,
+      screencast: entry.streamer.screencastStatus,
+      browserAudio: entry.streamer.browserAudioStatus,
+    };
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, payload: unknown): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
+
+export { ControlServer, ControlServerOptions };
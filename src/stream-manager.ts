@@ -0,0 +1,273 @@
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import path from 'path';
+import type { WebStreamer, StreamConfig, WebStreamerOptions } from './index';
+import { createLogger } from './logger';
+
+const log = createLogger('manager');
+
+type StreamStatus = 'starting' | 'running' | 'stopping' | 'stopped' | 'error';
+
+interface StreamSlot {
+  displayNumber: number;
+  sinkName: string;
+  profileDir: string;
+  previewDir: string;
+}
+
+interface StreamEvent {
+  type: string;
+  at: string;
+  payload: unknown;
+}
+
+interface ManagedStream {
+  id: string;
+  config: StreamConfig;
+  status: StreamStatus;
+  slot: StreamSlot;
+  streamer: WebStreamer;
+  ready: Promise<void>;
+  events: StreamEvent[];
+  createdAt: Date;
+  startedAt?: Date;
+  stoppedAt?: Date;
+  error?: string;
+}
+
+interface StreamManagerOptions {
+  createStreamer: (options: WebStreamerOptions) => WebStreamer;
+  baseDisplay?: number;
+  maxStreams?: number;
+  profileRoot?: string;
+  previewRoot?: string;
+}
+
+class StreamLimitError extends Error {}
+
+const MAX_EVENTS = 100;
+// Stopped and failed streams kept for the API, oldest dropped first
+const MAX_FINISHED_STREAMS = 20;
+
+const LIFECYCLE_EVENTS = [
+  'ffmpeg:start',
+  'ffmpeg:exit',
+  'ffmpeg:restart',
+  'ffmpeg:stable',
+  'ffmpeg:giveup',
+  'ffmpeg:audio-fallback',
+  'ffmpeg:audio-restored',
+  'ffmpeg:error',
+  'browser:unhealthy',
+  'browser:restart',
+  'browser:recovered',
+  'browser:recovery-failed',
+  'browser:pageerror',
+  'output:start',
+  'output:exit',
+  'output:restart',
+  'output:giveup',
+  'recording:start',
+  'recording:exit',
+  'recording:restart',
+  'recording:giveup',
+  'recording:rotate',
+  'recording:prune',
+  'audio:silence',
+  'audio:sound',
+  'overlay:update',
+  'playlist:page',
+  'playlist:page-error',
+  'fallback:start',
+  'fallback:end',
+  'fallback:restore-failed',
+  'capture:move',
+  'capture:lost',
+  'capture:found',
+];
+
+/**
+ * Runs several WebStreamer instances side by side
+ * Each stream gets its own Xvfb display, PulseAudio null sink, browser profile and FFmpeg process.
+ * Lifecycle events of every stream are re-emitted as `event` with the stream attached.
+ */
+class StreamManager extends EventEmitter {
+  private streams: Map<string, ManagedStream> = new Map();
+  // Display numbers whose stream hasn't finished tearing down yet
+  private heldDisplays: Set<number> = new Set();
+  private baseDisplay: number;
+  private maxStreams: number;
+  private profileRoot: string;
+  private previewRoot: string;
+
+  constructor(private options: StreamManagerOptions) {
+    super();
+    this.baseDisplay = options.baseDisplay ?? 99;
+    this.maxStreams = options.maxStreams ?? 4;
+    this.profileRoot = options.profileRoot ?? '/tmp/web-streamer/profiles';
+    this.previewRoot = options.previewRoot ?? '/tmp/web-streamer/preview';
+  }
+
+  /**
+   * Allocate a slot and start a stream in the background
+   * Await `ready` on the returned stream to wait for startup.
+   */
+  create(config: StreamConfig): ManagedStream {
+    const active = this.active();
+    if (active.length >= this.maxStreams) {
+      throw new StreamLimitError(`Maximum of ${this.maxStreams} concurrent streams reached`);
+    }
+
+    const slot = this.allocateSlot();
+    let streamer: WebStreamer;
+    try {
+      mkdirSync(slot.profileDir, { recursive: true });
+      streamer = this.options.createStreamer(slot);
+    } catch (error) {
+      this.releaseSlot(slot);
+      throw error;
+    }
+
+    const id = randomUUID();
+    log.info(`Starting stream ${id} on display :${slot.displayNumber} (sink: ${slot.sinkName})`);
+
+    const entry: ManagedStream = {
+      id,
+      config,
+      status: 'starting',
+      slot,
+      streamer,
+      ready: Promise.resolve(),
+      events: [],
+      createdAt: new Date(),
+    };
+
+    for (const type of LIFECYCLE_EVENTS) {
+      streamer.on(type, (payload) => this.recordEvent(entry, type, payload));
+    }
+
+    entry.ready = streamer.startStream(config)
+      .then(() => {
+        if (entry.status === 'starting') {
+          entry.status = 'running';
+          entry.startedAt = new Date();
+        }
+      })
+      .catch(async (error) => {
+        log.error(`Stream ${id} failed to start`, { error });
+        entry.status = 'error';
+        entry.error = error instanceof Error ? error.message : String(error);
+        await streamer.stopStream().catch(() => {});
+        this.releaseSlot(slot);
+        this.pruneFinished();
+        throw error;
+      });
+    // Callers that don't await `ready` shouldn't trigger an unhandled rejection
+    entry.ready.catch(() => {});
+
+    this.streams.set(id, entry);
+    return entry;
+  }
+
+  get(id: string): ManagedStream | undefined {
+    return this.streams.get(id);
+  }
+
+  list(): ManagedStream[] {
+    return Array.from(this.streams.values());
+  }
+
+  active(): ManagedStream[] {
+    return this.list().filter((entry) => entry.status === 'starting' || entry.status === 'running');
+  }
+
+  /**
+   * Stop a stream and free its display, sink and profile
+   */
+  async stop(id: string): Promise<ManagedStream | undefined> {
+    const entry = this.streams.get(id);
+    if (!entry || entry.status === 'stopped' || entry.status === 'stopping' || entry.status === 'error') {
+      return entry;
+    }
+
+    entry.status = 'stopping';
+    try {
+      await entry.streamer.stopStream();
+    } finally {
+      entry.status = 'stopped';
+      entry.stoppedAt = new Date();
+      this.releaseSlot(entry.slot);
+      this.pruneFinished();
+    }
+    return entry;
+  }
+
+  private recordEvent(entry: ManagedStream, type: string, payload: unknown): void {
+    const event = { type, at: new Date().toISOString(), payload };
+    entry.events.push(event);
+    if (entry.events.length > MAX_EVENTS) {
+      entry.events.shift();
+    }
+
+    // FFmpeg gave up restarting - the stream is dead, free its resources
+    if (type === 'ffmpeg:giveup' && entry.status === 'running') {
+      entry.status = 'error';
+      entry.error = 'FFmpeg restart budget exhausted';
+      entry.stoppedAt = new Date();
+      entry.streamer.stopStream().catch(() => {}).finally(() => {
+        this.releaseSlot(entry.slot);
+        this.pruneFinished();
+      });
+    }
+
+    this.emit('event', entry, event);
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all(this.active().map((entry) => this.stop(entry.id)));
+  }
+
+  /**
+   * Find the lowest display number that is neither used by us nor locked by another X server
+   * A slot stays taken until its stream has stopped completely, so a stream that is still
+   * stopping never shares its display or sink with a new one.
+   */
+  private allocateSlot(): StreamSlot {
+    let displayNumber = this.baseDisplay;
+    while (this.heldDisplays.has(displayNumber) || existsSync(`/tmp/.X${displayNumber}-lock`)) {
+      displayNumber++;
+    }
+    this.heldDisplays.add(displayNumber);
+
+    const offset = displayNumber - this.baseDisplay;
+    return {
+      displayNumber,
+      // The first stream keeps the historical sink name so single-stream setups behave as before
+      sinkName: offset === 0 ? 'stream_sink' : `stream_sink_${displayNumber}`,
+      profileDir: path.join(this.profileRoot, `display-${displayNumber}`),
+      previewDir: path.join(this.previewRoot, `display-${displayNumber}`),
+    };
+  }
+
+  private releaseSlot(slot: StreamSlot): void {
+    try {
+      rmSync(slot.profileDir, { recursive: true, force: true });
+    } catch (e) {
+      log.warn(`Could not remove browser profile ${slot.profileDir}`, { error: e });
+    }
+    this.heldDisplays.delete(slot.displayNumber);
+  }
+
+  /**
+   * Forget the oldest finished streams beyond MAX_FINISHED_STREAMS
+   */
+  private pruneFinished(): void {
+    const finished = this.list().filter((entry) => entry.status === 'stopped' || entry.status === 'error');
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_STREAMS))) {
+      this.streams.delete(entry.id);
+    }
+  }
+}
+
+export { StreamManager, StreamManagerOptions, ManagedStream, StreamStatus, StreamEvent, StreamLimitError };
@@ -0,0 +1,463 @@
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import type { Writable } from 'stream';
+import { Logger, LogLevel, createLogger } from './logger';
+
+interface SupervisorOptions {
+  // Label used in log lines (e.g. "FFmpeg[output 2]")
+  name?: string;
+  // Where this process logs (default: a plain `ffmpeg` logger)
+  logger?: Logger;
+  // Build the FFmpeg arguments for the next run; silentAudio asks for anullsrc instead of PulseAudio
+  buildArgs: (silentAudio: boolean) => string[];
+  env?: NodeJS.ProcessEnv;
+  // Restarts allowed before giving up (-1 = unlimited). The budget resets once a run is stable.
+  maxRestarts?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  // A run that lasts this long counts as stable (resets backoff and retry budget)
+  stableAfter?: number;
+  // Called while running on silent audio; resolves to true once real capture is possible again
+  probeAudio?: () => Promise<boolean>;
+  audioProbeInterval?: number;
+  // Receive FFmpeg's stdout (e.g. an MPEG-TS stream written to pipe:1) instead of logging it
+  onStdout?: (chunk: Buffer) => void;
+  // Bytes allowed to queue on stdin before write() starts dropping data
+  maxStdinBuffer?: number;
+  // Extra input pipes after the progress pipe, read by FFmpeg as pipe:4, pipe:5, ... and fed with write(chunk, fd)
+  inputPipes?: number;
+}
+
+interface FFmpegLogLine {
+  level: LogLevel;
+  message: string;
+  // Filter or muxer that logged it, e.g. "flv @ 0x55d5c8c0"
+  context?: string;
+}
+
+// FFmpeg's level names (with `-loglevel level+...`) mapped onto ours
+const FFMPEG_LEVELS: Record<string, LogLevel> = {
+  panic: 'error',
+  fatal: 'error',
+  error: 'error',
+  warning: 'warn',
+  info: 'info',
+  verbose: 'debug',
+  debug: 'debug',
+  trace: 'trace',
+};
+
+/**
+ * Parse one stderr line of FFmpeg run with `-loglevel level+info`
+ * Stats lines (frame=... fps=...), if FFmpeg prints them, are logged at debug.
+ */
+function parseFFmpegLine(line: string): FFmpegLogLine {
+  const match = line.match(/^(?:\[([^\]]+ @ [^\]]+)\] )?\[(\w+)\] (.*)$/);
+  const level = match ? FFMPEG_LEVELS[match[2]] : undefined;
+  const message = match && level ? match[3] : line;
+  const context = match && level ? match[1] : undefined;
+  if (/^(frame|size)=\s*\S/.test(message)) {
+    return { level: 'debug', message, context };
+  }
+  return { level: level ?? 'info', message, context };
+}
+
+interface FFmpegProgress {
+  // Frames written since this run started
+  frames: number;
+  fps: number;
+  // Output bitrate in bits/s (null until FFmpeg can tell)
+  bitrate: number | null;
+  // Bytes written since this run started
+  totalSize: number | null;
+  // Seconds of media written
+  outTime: number;
+  dupFrames: number;
+  dropFrames: number;
+  // Encoding speed relative to real time (1 = keeping up)
+  speed: number | null;
+  updatedAt: string;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  const parsed = parseFloat(value ?? '');
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Turn one block of `-progress` key=value pairs into numbers
+ * FFmpeg writes "N/A" for values it doesn't know yet.
+ */
+function parseFFmpegProgress(fields: Record<string, string>): FFmpegProgress {
+  const bitrate = parseNumber(fields.bitrate);
+  return {
+    frames: parseNumber(fields.frame) ?? 0,
+    fps: parseNumber(fields.fps) ?? 0,
+    bitrate: bitrate === null ? null : Math.round(bitrate * 1000),
+    totalSize: parseNumber(fields.total_size),
+    outTime: Math.max(0, (parseNumber(fields.out_time_us) ?? 0) / 1e6),
+    dupFrames: parseNumber(fields.dup_frames) ?? 0,
+    dropFrames: parseNumber(fields.drop_frames) ?? 0,
+    speed: parseNumber(fields.speed),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+interface SupervisorExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  uptime: number;
+  silentAudio: boolean;
+}
+
+/**
+ * Keeps an FFmpeg process alive: restarts it with exponential backoff when it exits,
+ * falls back to silent audio when PulseAudio capture keeps failing and switches back
+ * once the sink monitor is available again.
+ *
+ * Events: start, exit, restart, stable, giveup, audio-fallback, audio-restored, error
+ */
+class FFmpegSupervisor extends EventEmitter {
+  private process: ChildProcess | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stableTimer: NodeJS.Timeout | null = null;
+  private probeTimer: NodeJS.Timeout | null = null;
+  private probing = false;
+  private stopping = false;
+  private plannedRestart = false;
+  private startedAt = 0;
+  private restartsInBudget = 0;
+  private totalRestarts = 0;
+  private silentAudio = false;
+  private lastExit: SupervisorExit | null = null;
+  private progress: FFmpegProgress | null = null;
+  // Per fd, while write() is dropping data
+  private droppedBytes: Map<number, number> = new Map();
+  private gaveUp = false;
+  private name: string;
+  private log: Logger;
+
+  private maxRestarts: number;
+  private initialDelay: number;
+  private maxDelay: number;
+  private stableAfter: number;
+  private audioProbeInterval: number;
+
+  constructor(private options: SupervisorOptions) {
+    super();
+    this.maxRestarts = options.maxRestarts ?? 10;
+    this.initialDelay = options.initialDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 60000;
+    this.stableAfter = options.stableAfter ?? 60000;
+    this.audioProbeInterval = options.audioProbeInterval ?? 30000;
+    this.name = options.name ?? 'FFmpeg';
+    this.log = options.logger ?? createLogger('ffmpeg');
+  }
+
+  /**
+   * Start FFmpeg and resolve once a run has survived the startup grace period
+   * Rejects if FFmpeg cannot be spawned or the retry budget runs out first.
+   */
+  start(graceMs: number = 2000): Promise<void> {
+    this.stopping = false;
+    this.plannedRestart = false;
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout | null = null;
+      // Every (re)spawn gets the full grace period; a run that already exited doesn't count
+      const onStart = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => {
+          timer = null;
+          if (this.process) {
+            cleanup();
+            resolve();
+          }
+        }, graceMs);
+      };
+      const onFatal = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        this.off('start', onStart);
+        this.off('giveup', onGiveUp);
+        this.off('error', onFatal);
+      };
+      const onGiveUp = () => onFatal(new Error(`FFmpeg exited with code ${this.lastExit?.code} and could not be restarted`));
+      this.on('start', onStart);
+      this.once('giveup', onGiveUp);
+      this.once('error', onFatal);
+      this.spawnProcess();
+    });
+  }
+
+  /**
+   * Stop FFmpeg and cancel any pending restart
+   */
+  stop(): void {
+    this.stopping = true;
+    this.plannedRestart = false;
+    this.clearTimers();
+    if (this.process) {
+      this.process.kill('SIGTERM');
+      this.process = null;
+    }
+  }
+
+  /**
+   * Restart FFmpeg right away (e.g. after the inputs changed)
+   */
+  restartNow(): void {
+    if (this.stopping) {
+      return;
+    }
+    this.clearTimers();
+    if (this.process) {
+      // The exit handler respawns immediately without touching the retry budget
+      this.plannedRestart = true;
+      this.process.kill('SIGTERM');
+    } else {
+      this.spawnProcess();
+    }
+  }
+
+  /**
+   * Feed data to FFmpeg's stdin (for processes reading pipe:0) or one of its input pipes
+   * Data is dropped while the process is down or can't keep up, so one slow
+   * consumer never buffers unbounded memory.
+   */
+  write(chunk: Buffer, fd = 0): void {
+    const pipe = this.process?.stdio[fd] as Writable | null | undefined;
+    if (!pipe || !pipe.writable) {
+      return;
+    }
+    const dropped = this.droppedBytes.get(fd) ?? 0;
+    if (pipe.writableLength > (this.options.maxStdinBuffer ?? 32 * 1024 * 1024)) {
+      if (dropped === 0) {
+        this.log.warn(`${this.name} is not keeping up, dropping data${fd ? ` for pipe:${fd}` : ''}`);
+      }
+      this.droppedBytes.set(fd, dropped + chunk.length);
+      return;
+    }
+    this.droppedBytes.delete(fd);
+    pipe.write(chunk);
+  }
+
+  get status() {
+    return {
+      running: this.process !== null,
+      pid: this.process?.pid,
+      silentAudio: this.silentAudio,
+      restarts: this.totalRestarts,
+      uptime: this.process ? Date.now() - this.startedAt : 0,
+      lastExit: this.lastExit,
+      gaveUp: this.gaveUp,
+      // Latest -progress report of the current run
+      progress: this.process ? this.progress : null,
+    };
+  }
+
+  private spawnProcess(): void {
+    // Level-tagged lines, so stderr can be logged at the right level; progress goes to its own pipe (fd 3)
+    const args = [
+      '-hide_banner', '-loglevel', 'level+info', '-nostats', '-progress', 'pipe:3',
+      ...this.options.buildArgs(this.silentAudio),
+    ];
+    this.log.info(`Starting ${this.name}${this.silentAudio ? ' (silent audio)' : ''}`);
+    this.log.debug(`${this.name} command line`, { args: args.join(' ') });
+
+    const inputPipes: 'pipe'[] = new Array(this.options.inputPipes ?? 0).fill('pipe');
+    const ffmpeg = spawn('ffmpeg', args, { env: this.options.env, stdio: ['pipe', 'pipe', 'pipe', 'pipe', ...inputPipes] });
+    this.process = ffmpeg;
+    this.startedAt = Date.now();
+    this.gaveUp = false;
+    this.progress = null;
+
+    // EPIPE when FFmpeg exits while we're writing - the close handler deals with it
+    ffmpeg.stdin?.on('error', () => {});
+    for (let fd = 4; fd < ffmpeg.stdio.length; fd++) {
+      ffmpeg.stdio[fd]?.on('error', () => {});
+    }
+
+    ffmpeg.stdout?.on('data', (data: Buffer) => {
+      if (this.options.onStdout) {
+        this.options.onStdout(data);
+      } else {
+        this.log.info(`${this.name} stdout: ${data.toString().trim()}`);
+      }
+    });
+
+    // FFmpeg logs to stderr; progress lines end in \r instead of \n
+    let pending = '';
+    ffmpeg.stderr?.on('data', (data: Buffer) => {
+      const lines = (pending + data.toString()).split(/\r\n|\r|\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines.filter((entry) => entry.trim())) {
+        const { level, message, context } = parseFFmpegLine(line);
+        this.log.write(level, message, { process: this.name, context });
+      }
+    });
+
+    // -progress writes key=value lines; each block ends with progress=continue (or end)
+    let progressLine = '';
+    let fields: Record<string, string> = {};
+    ffmpeg.stdio[3]?.on('data', (data: Buffer) => {
+      const lines = (progressLine + data.toString()).split('\n');
+      progressLine = lines.pop() ?? '';
+      for (const line of lines) {
+        const separator = line.indexOf('=');
+        if (separator === -1) {
+          continue;
+        }
+        const key = line.slice(0, separator).trim();
+        fields[key] = line.slice(separator + 1).trim();
+        if (key === 'progress') {
+          if (this.process === ffmpeg) {
+            this.progress = parseFFmpegProgress(fields);
+          }
+          fields = {};
+        }
+      }
+    });
+    ffmpeg.stdio[3]?.on('error', () => {});
+
+    ffmpeg.on('error', (error: Error) => {
+      this.log.error(`${this.name} process error`, { error });
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // FFmpeg isn't installed - restarting won't help
+        this.stop();
+        this.emit('error', error);
+      }
+    });
+
+    ffmpeg.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      this.handleExit(ffmpeg, code, signal);
+    });
+
+    this.emit('start', { pid: ffmpeg.pid, silentAudio: this.silentAudio, restarts: this.totalRestarts });
+
+    this.stableTimer = setTimeout(() => {
+      this.restartsInBudget = 0;
+      this.emit('stable', { uptime: Date.now() - this.startedAt });
+    }, this.stableAfter);
+
+    if (this.silentAudio && this.options.probeAudio) {
+      this.probeTimer = setInterval(() => this.probeAudio(), this.audioProbeInterval);
+    }
+  }
+
+  private handleExit(ffmpeg: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    const uptime = Date.now() - this.startedAt;
+    const exit: SupervisorExit = { code, signal, uptime, silentAudio: this.silentAudio };
+    this.log.info(`${this.name} process exited with code ${code}${signal ? ` (signal ${signal})` : ''} after ${Math.round(uptime / 1000)}s`);
+
+    if (this.process === ffmpeg) {
+      this.process = null;
+    }
+    this.lastExit = exit;
+    this.clearTimers();
+    this.emit('exit', exit);
+
+    if (this.stopping) {
+      return;
+    }
+
+    if (this.plannedRestart) {
+      this.plannedRestart = false;
+      this.spawnProcess();
+      return;
+    }
+
+    if (this.maxRestarts !== -1 && this.restartsInBudget >= this.maxRestarts) {
+      this.log.error(`${this.name} restart budget exhausted (${this.maxRestarts} restarts), giving up`);
+      this.gaveUp = true;
+      this.emit('giveup', { restarts: this.totalRestarts, lastExit: exit });
+      return;
+    }
+
+    // A quick failure while capturing PulseAudio is most likely an audio problem:
+    // retry with silent audio, and try real capture again on the run after that
+    const failedFast = code !== 0 && uptime < this.stableAfter;
+    const retryRealAudio = this.silentAudio && this.options.probeAudio !== undefined;
+    if (!this.silentAudio && failedFast && this.options.probeAudio) {
+      this.log.warn(`${this.name} failed, may be audio issue. Retrying with silent audio...`);
+      this.silentAudio = true;
+      this.emit('audio-fallback', { reason: `exit code ${code}` });
+    }
+
+    const delay = Math.min(this.initialDelay * 2 ** this.restartsInBudget, this.maxDelay);
+    this.restartsInBudget++;
+    this.totalRestarts++;
+    this.log.info(`Restarting ${this.name} in ${delay}ms (restart ${this.restartsInBudget}${this.maxRestarts === -1 ? '' : `/${this.maxRestarts}`})...`);
+    this.emit('restart', { delay, restarts: this.totalRestarts, silentAudio: this.silentAudio });
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.respawn(retryRealAudio);
+    }, delay);
+  }
+
+  /**
+   * Spawn the next run once the backoff is over, first checking whether real audio works again
+   */
+  private async respawn(retryRealAudio: boolean): Promise<void> {
+    if (retryRealAudio && this.silentAudio && (await this.checkAudio())) {
+      this.silentAudio = false;
+      this.emit('audio-restored', {});
+    }
+    // stop(), start() or restartNow() may have been called while the probe ran
+    if (!this.stopping && !this.process) {
+      this.spawnProcess();
+    }
+  }
+
+  private async probeAudio(): Promise<void> {
+    if (this.probing || !this.silentAudio) {
+      return;
+    }
+    this.probing = true;
+    const available = await this.checkAudio();
+    this.probing = false;
+    // A run that exited meanwhile is restarted by the exit handler
+    if (!available || !this.silentAudio || !this.process) {
+      return;
+    }
+    this.log.info(`PulseAudio capture available again, restarting ${this.name} with real audio`);
+    this.silentAudio = false;
+    this.emit('audio-restored', {});
+    this.restartNow();
+  }
+
+  private async checkAudio(): Promise<boolean> {
+    if (!this.options.probeAudio) {
+      return false;
+    }
+    try {
+      return await this.options.probeAudio();
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+}
+
+export { FFmpegSupervisor, SupervisorOptions, SupervisorExit, FFmpegLogLine, FFmpegProgress, parseFFmpegLine, parseFFmpegProgress };
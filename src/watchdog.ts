@@ -0,0 +1,173 @@
+import { EventEmitter } from 'events';
+import type { Browser, Page } from 'puppeteer';
+import { Logger, createLogger } from './logger';
+
+interface WatchdogOptions {
+  // Relaunch the browser and reload the page; called at most once at a time
+  recover: (reason: string) => Promise<void>;
+  // Liveness check period in ms
+  interval?: number;
+  // How long a liveness evaluate may take before it counts as a hang
+  timeout?: number;
+  // Consecutive failed liveness checks before recovering
+  maxFailures?: number;
+  // Where the watchdog logs (default: a plain `browser` logger)
+  logger?: Logger;
+}
+
+// Chromium shows its own error pages under this scheme (DNS failure, crashed renderer, ...)
+const ERROR_PAGE_PREFIX = 'chrome-error://';
+
+/**
+ * Watches the browser for crashes, hangs and error pages and triggers recovery
+ * Uses Puppeteer's `disconnected`, `error` and `pageerror` events plus a periodic
+ * liveness `evaluate`. FFmpeg is not touched - it keeps capturing the display.
+ *
+ * Events: unhealthy, recovered, recovery-failed, pageerror
+ */
+class BrowserWatchdog extends EventEmitter {
+  private browser: Browser | null = null;
+  private page: Page | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private failures = 0;
+  private recovering = false;
+  private stopped = false;
+
+  private interval: number;
+  private timeout: number;
+  private maxFailures: number;
+  private log: Logger;
+
+  constructor(private options: WatchdogOptions) {
+    super();
+    this.interval = options.interval ?? 10000;
+    this.timeout = options.timeout ?? 5000;
+    this.maxFailures = options.maxFailures ?? 2;
+    this.log = options.logger ?? createLogger('browser');
+  }
+
+  /**
+   * Start (or resume, after a relaunch) watching a browser and its page
+   */
+  watch(browser: Browser, page: Page): void {
+    this.detach();
+    this.stopped = false;
+    this.browser = browser;
+    this.page = page;
+    this.failures = 0;
+
+    browser.on('disconnected', this.onDisconnected);
+    page.on('error', this.onPageCrash);
+    page.on('pageerror', this.onPageError);
+
+    this.timer = setInterval(() => {
+      this.checkLiveness().catch((error) => {
+        this.log.warn('Browser liveness check failed unexpectedly', { error });
+      });
+    }, this.interval);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.detach();
+  }
+
+  private detach(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.browser?.off('disconnected', this.onDisconnected);
+    this.page?.off('error', this.onPageCrash);
+    this.page?.off('pageerror', this.onPageError);
+    this.browser = null;
+    this.page = null;
+  }
+
+  private onDisconnected = () => {
+    this.triggerRecovery('browser disconnected (crashed or was closed)');
+  };
+
+  private onPageCrash = (error: Error) => {
+    this.triggerRecovery(`page crashed: ${error.message}`);
+  };
+
+  private onPageError = (error: unknown) => {
+    // Uncaught page exceptions are usually harmless, but check right away in case the page is wedged
+    const message = error instanceof Error ? error.message : String(error);
+    this.log.warn(`Page error: ${message}`);
+    this.emit('pageerror', { message });
+    this.checkLiveness().catch(() => {});
+  };
+
+  private async checkLiveness(): Promise<void> {
+    const page = this.page;
+    if (!page || this.recovering || this.stopped) {
+      return;
+    }
+
+    const url = page.url();
+    if (url.startsWith(ERROR_PAGE_PREFIX)) {
+      this.triggerRecovery(`browser is showing an error page (${url})`);
+      return;
+    }
+
+    try {
+      await Promise.race([
+        page.evaluate('document.readyState'),
+        new Promise((_, reject) => setTimeout(() => reject(new Error(`no response within ${this.timeout}ms`)), this.timeout)),
+      ]);
+      this.failures = 0;
+    } catch (error) {
+      if (page !== this.page) {
+        // Page was replaced while we were waiting
+        return;
+      }
+      this.failures++;
+      const message = error instanceof Error ? error.message : String(error);
+      this.log.warn(`Page liveness check failed (${this.failures}/${this.maxFailures}): ${message}`);
+      if (this.failures >= this.maxFailures) {
+        this.triggerRecovery(`page unresponsive: ${message}`);
+      }
+    }
+  }
+
+  private triggerRecovery(reason: string): void {
+    if (this.recovering || this.stopped) {
+      return;
+    }
+    this.recovering = true;
+    this.log.warn(`Browser unhealthy: ${reason}. Relaunching...`);
+    this.emit('unhealthy', { reason });
+    // Stop listening to the old browser - its close would fire `disconnected` again
+    this.detach();
+
+    this.options.recover(reason)
+      .then(() => {
+        this.log.info('Browser recovered');
+        this.emit('recovered', { reason });
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.log.error(`Browser recovery failed: ${message}`);
+        this.emit('recovery-failed', { reason, error: message });
+        // Nothing is being watched now - try again after the next check interval
+        if (!this.stopped) {
+          this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.triggerRecovery(reason);
+          }, this.interval);
+        }
+      })
+      .finally(() => {
+        this.recovering = false;
+      });
+  }
+}
+
+export { BrowserWatchdog, WatchdogOptions };